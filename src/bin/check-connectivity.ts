@@ -0,0 +1,103 @@
+#!/usr/bin/env node
+/**
+ * Connectivity Checker
+ *
+ * Probes the MariaDB, NATS, Redis, Jaeger and service URLs of one component
+ * from where it will run, with the values extract-config would give it.
+ * Exits with 1 when any dependency is unreachable.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConnectivityFormat, ConnectivityOptions, ConnectivityReport } from '../types';
+import { extractConfig } from './extract-config';
+import { probeDeployment, formatConnectivityReport, CONNECTIVITY_FORMATS } from '../connectivity';
+import { getPolicyPack } from '../policies';
+import { getOptionValue, getOptionValues, getPositionalArgs } from '../cli';
+
+/**
+ * Extract the component selected by options and probe its dependencies
+ */
+export async function checkConnectivity(options: ConnectivityOptions): Promise<ConnectivityReport> {
+  const { timeoutMs, ...extractOptions } = options;
+  const result = extractConfig(extractOptions);
+  return {
+    systemId: result.systemId,
+    componentId: result.componentId,
+    results: await probeDeployment(result.deployment!, timeoutMs)
+  };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+    console.log(`
+Usage: check-connectivity <config-path> [component-id] [options]
+
+Arguments:
+  config-path     Path to infra-config.json file
+  component-id    Component to check (optional - will auto-discover)
+
+Options:
+  --format, -f    Output format: ${CONNECTIVITY_FORMATS.join(', ')} (default: text)
+  --timeout       Timeout per probe in ms (default: 3000)
+  --output, -o    Output file path (default: stdout)
+  --overlay       Overlay file applied on top of config-path (repeatable)
+  --skip-hash-check  Do not fail when contentHash does not match the content
+  --policy        Policy pack to apply instead of the one selected by environment
+  --key-file      AES-256 key for enc:v1: values (default: $INFRA_CONFIG_KEY)
+  --help, -h      Show this help
+
+Exit codes: 0 all dependencies reachable, 1 a dependency is unreachable or the check failed
+
+Examples:
+  check-connectivity ./infra-config.json infra-iam-a
+  check-connectivity ./infra-config.json agent-im --timeout 1000 --format json
+`);
+    process.exit(0);
+  }
+
+  const positional = getPositionalArgs(args, ['--format', '-f', '--timeout', '--output', '-o', '--overlay', '--policy', '--key-file']);
+  const format = (getOptionValue(args, '--format', '-f') || 'text') as ConnectivityFormat;
+  const timeout = getOptionValue(args, '--timeout');
+  const output = getOptionValue(args, '--output', '-o');
+  const policyPack = getOptionValue(args, '--policy');
+  const keyFile = getOptionValue(args, '--key-file');
+
+  try {
+    if (!CONNECTIVITY_FORMATS.includes(format)) {
+      throw new Error(`Unknown format '${format}'. Must be one of: ${CONNECTIVITY_FORMATS.join(', ')}`);
+    }
+    if (timeout !== undefined && !(Number(timeout) > 0)) {
+      throw new Error(`--timeout must be a positive number of ms, got '${timeout}'`);
+    }
+    if (policyPack) getPolicyPack(policyPack);
+
+    const report = await checkConnectivity({
+      configPath: path.resolve(positional[0]),
+      componentId: positional[1],
+      overlayPaths: getOptionValues(args, '--overlay').map(overlay => path.resolve(overlay)),
+      skipHashCheck: args.includes('--skip-hash-check'),
+      policyPack,
+      encryptionKeyPath: keyFile ? path.resolve(keyFile) : undefined,
+      timeoutMs: timeout !== undefined ? Number(timeout) : undefined
+    });
+    const rendered = formatConnectivityReport(report, format);
+
+    if (output) {
+      fs.writeFileSync(path.resolve(output), rendered, 'utf-8');
+      console.error(`✓ Report written to ${path.resolve(output)}`);
+    } else {
+      process.stdout.write(rendered);
+    }
+    process.exit(report.results.some(result => result.status === 'failed') ? 1 : 0);
+  } catch (error) {
+    console.error(`ERROR: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
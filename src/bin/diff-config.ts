@@ -0,0 +1,70 @@
+#!/usr/bin/env node
+/**
+ * Configuration Diff Tool
+ *
+ * Shows what changes per system and component between two infra-config
+ * versions, including the resulting environment variables. Exits with 0 when
+ * the configs are equivalent, 1 when they differ and 2 on error, like diff(1).
+ */
+
+import * as path from 'path';
+import { loadConfigFile } from '../overlay';
+import { diffConfigs, formatConfigDiff } from '../diff';
+import { getOptionValue, getPositionalArgs } from '../cli';
+
+function main() {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+    console.log(`
+Usage: diff-config <old-config> <new-config> [options]
+
+Arguments:
+  old-config      Path to the current infra-config.json
+  new-config      Path to the proposed infra-config.json
+
+Options:
+  --format, -f    Output format: text (default), json
+  --show-secrets  Show secret values instead of masking them
+  --help, -h      Show this help
+
+Exit codes:
+  0  No changes
+  1  Configs differ
+  2  Error
+
+Examples:
+  diff-config ./qual/infra-config.json ./prod/infra-config.json
+  diff-config ./infra-config.json ./infra-config.next.json --format json
+`);
+    process.exit(0);
+  }
+
+  const [oldPath, newPath] = getPositionalArgs(args, ['--format', '-f']).map(arg => path.resolve(arg));
+  const format = getOptionValue(args, '--format', '-f') || 'text';
+
+  if (!newPath) {
+    console.error('ERROR: diff-config requires <old-config> and <new-config>');
+    process.exit(2);
+  }
+  if (format !== 'text' && format !== 'json') {
+    console.error(`ERROR: Unknown format '${format}'. Must be one of: text, json`);
+    process.exit(2);
+  }
+
+  try {
+    const diff = diffConfigs(loadConfigFile(oldPath), loadConfigFile(newPath), {
+      showSecrets: args.includes('--show-secrets')
+    });
+
+    process.stdout.write(format === 'json' ? JSON.stringify(diff, null, 2) + '\n' : formatConfigDiff(diff));
+    process.exit(diff.identical ? 0 : 1);
+  } catch (error) {
+    console.error(`ERROR: ${(error as Error).message}`);
+    process.exit(2);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
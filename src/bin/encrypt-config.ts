@@ -0,0 +1,128 @@
+#!/usr/bin/env node
+/**
+ * Configuration Encryption Tool
+ *
+ * Encrypts the secret fields of infra-config.json (or an overlay) in place as
+ * enc:v1: values, re-encrypts them with a new key, and generates keys.
+ * extract-config decrypts the values with the same key.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { InfraConfig, EncryptConfigResult } from '../types';
+import { loadConfigFile } from '../overlay';
+import { computeContentHash } from '../hash';
+import { encryptConfig, reencryptConfig, loadEncryptionKey, generateEncryptionKey, ENCRYPTION_KEY_ENV } from '../encryption';
+import { getOptionValue, getPositionalArgs } from '../cli';
+
+function requireKey(keyPath?: string): Buffer {
+  const key = loadEncryptionKey(keyPath);
+  if (!key) {
+    throw new Error(`No encryption key: pass a key file or set ${ENCRYPTION_KEY_ENV}`);
+  }
+  return key;
+}
+
+/**
+ * Write the config back, keeping an existing contentHash up to date
+ */
+function writeEncrypted(configPath: string, result: EncryptConfigResult<InfraConfig>): void {
+  const config = result.config.contentHash ? { ...result.config, contentHash: computeContentHash(result.config) } : result.config;
+  fs.writeFileSync(configPath, JSON.stringify(config, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Encrypt every plain secret field of a config file in place.
+ * The key comes from keyPath or $INFRA_CONFIG_KEY.
+ */
+export function encryptConfigFile(configPath: string, keyPath?: string): EncryptConfigResult<InfraConfig> {
+  const result = encryptConfig(loadConfigFile(configPath), requireKey(keyPath));
+  if (result.fields.length > 0) {
+    writeEncrypted(configPath, result);
+  }
+  return result;
+}
+
+/**
+ * Re-encrypt every encrypted value of a config file with a new key
+ */
+export function reencryptConfigFile(configPath: string, oldKeyPath: string | undefined, newKeyPath: string): EncryptConfigResult<InfraConfig> {
+  const result = reencryptConfig(loadConfigFile(configPath), requireKey(oldKeyPath), requireKey(newKeyPath));
+  if (result.fields.length > 0) {
+    writeEncrypted(configPath, result);
+  }
+  return result;
+}
+
+function main() {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+    console.log(`
+Usage: encrypt-config <config-path> [--key-file <key>]
+       encrypt-config reencrypt <config-path> --new-key-file <key> [--key-file <old-key>]
+       encrypt-config keygen <key-path>
+
+Arguments:
+  config-path     infra-config.json or overlay file, rewritten in place
+  key-path        File to write a new random AES-256 key to
+
+Options:
+  --key-file      AES-256 key, base64 or hex (default: $${ENCRYPTION_KEY_ENV})
+  --new-key-file  Key to re-encrypt with
+  --help, -h      Show this help
+
+Examples:
+  encrypt-config keygen ./keys/infra-config.key
+  encrypt-config ./infra-config.json --key-file ./keys/infra-config.key
+  encrypt-config reencrypt ./infra-config.json --key-file ./keys/old.key --new-key-file ./keys/new.key
+  extract-config ./infra-config.json infra-iam-a --key-file ./keys/infra-config.key
+`);
+    process.exit(0);
+  }
+
+  const positional = getPositionalArgs(args, ['--key-file', '--new-key-file']);
+  const keyFile = getOptionValue(args, '--key-file');
+  const keyPath = keyFile ? path.resolve(keyFile) : undefined;
+
+  try {
+    if (positional[0] === 'keygen') {
+      if (!positional[1]) {
+        console.error('ERROR: Usage: encrypt-config keygen <key-path>');
+        process.exit(1);
+      }
+      const target = path.resolve(positional[1]);
+      if (fs.existsSync(target)) {
+        console.error(`ERROR: ${target} already exists`);
+        process.exit(1);
+      }
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, generateEncryptionKey() + '\n', { encoding: 'utf-8', mode: 0o600 });
+      console.error(`✓ Key written to ${target} (keep it out of the repository)`);
+      process.exit(0);
+    }
+
+    let result: EncryptConfigResult<InfraConfig>;
+    if (positional[0] === 'reencrypt') {
+      const newKeyFile = getOptionValue(args, '--new-key-file');
+      if (!positional[1] || !newKeyFile) {
+        console.error('ERROR: Usage: encrypt-config reencrypt <config-path> --new-key-file <key>');
+        process.exit(1);
+      }
+      result = reencryptConfigFile(path.resolve(positional[1]), keyPath, path.resolve(newKeyFile));
+      console.error(`✓ Re-encrypted ${result.fields.length} value(s)`);
+    } else {
+      result = encryptConfigFile(path.resolve(positional[0]), keyPath);
+      console.error(`✓ Encrypted ${result.fields.length} value(s)`);
+    }
+    result.fields.forEach(field => console.log(field));
+    process.exit(0);
+  } catch (error) {
+    console.error(`ERROR: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
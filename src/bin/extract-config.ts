@@ -10,118 +10,50 @@
  * - Consistent field naming
  * - All config from JSON (no defaults in code)
  * - Clear error messages
+ * - Secret references resolved at extraction time
+ * - enc:v1: encrypted values decrypted at extraction time
+ * - ${ref:...} cross-component references
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { InfraConfig, Component, DeploymentConfig, ExtractedConfig, ExtractOptions } from '../types';
-
-/**
- * Auto-discover component from environment or config
- */
-function discoverComponent(config: InfraConfig, options: ExtractOptions): { component: Component; systemId: string; systemType: string } {
-  // Try explicit componentId from options or environment
-  const targetComponentId = options.componentId || process.env.COMPONENT_ID || process.env.TARGET_COMPONENT_ID;
-  const targetSystemId = options.systemId || process.env.SYSTEM_ID || process.env.TARGET_SYSTEM_ID;
-
-  if (!config.systems || config.systems.length === 0) {
-    throw new Error('No systems found in infra-config.json');
-  }
-
-  // Strategy 1: Find by explicit IDs
-  if (targetSystemId && targetComponentId) {
-    const system = config.systems.find(s => s.systemId === targetSystemId);
-    if (!system) {
-      throw new Error(`System '${targetSystemId}' not found in infra-config.json`);
-    }
-    const component = system.components.find(c => c.componentId === targetComponentId);
-    if (!component) {
-      throw new Error(`Component '${targetComponentId}' not found in system '${targetSystemId}'`);
-    }
-    return { component, systemId: system.systemId, systemType: system.systemType };
-  }
-
-  // Strategy 2: Find by componentId across all systems
-  if (targetComponentId) {
-    for (const system of config.systems) {
-      const component = system.components.find(c => c.componentId === targetComponentId);
-      if (component) {
-        return { component, systemId: system.systemId, systemType: system.systemType };
-      }
-    }
-    throw new Error(`Component '${targetComponentId}' not found in any system`);
-  }
-
-  // Strategy 3: Find first enabled AGENT component
-  for (const system of config.systems) {
-    const component = system.components.find(c => c.enabled !== false && c.componentType === 'AGENT');
-    if (component) {
-      console.error(`INFO: Auto-discovered component: ${component.componentId} in system ${system.systemId}`);
-      return { component, systemId: system.systemId, systemType: system.systemType };
-    }
-  }
-
-  // Strategy 4: Just use first component of first system
-  const system = config.systems[0];
-  const component = system.components[0];
-  console.error(`WARN: Using first available component: ${component.componentId} in system ${system.systemId}`);
-  return { component, systemId: system.systemId, systemType: system.systemType };
-}
-
-/**
- * Convert camelCase to SCREAMING_SNAKE_CASE for environment variables
- */
-function toEnvVarName(key: string): string {
-  return key
-    .replace(/([A-Z])/g, '_$1')
-    .toUpperCase()
-    .replace(/^_/, '');
-}
+import {
+  InfraConfig,
+  InfraConfigOverlay,
+  Component,
+  DeploymentConfig,
+  ExtractedConfig,
+  ExtractOptions,
+  ExtractAllOptions,
+  ExtractManifest,
+  ExtractManifestEntry,
+  EnvMapping,
+  OutputFormat,
+  ReferenceIssue,
+  System
+} from '../types';
+import { resolveSecretReferences } from '../secrets';
+import { discoverComponent } from '../discovery';
+import { applyEnvMapping, resolveEnvMapping, DEFAULT_ENV_MAPPING } from '../env-mapping';
+import { formatExtractedConfig, OUTPUT_FORMATS } from '../formatters';
+import { loadConfigFile, mergeConfigs } from '../overlay';
+import { DEPRECATED_FIELDS } from '../deprecations';
+import { checkProfile } from '../profiles';
+import { loadTrustedKeys, verifyFileSignature } from '../signature';
+import { loadEncryptionKey, decryptDeployment } from '../encryption';
+import { checkPolicies, getPolicyPack, selectPolicyPack } from '../policies';
+import { computeContentHash, verifyContentHash } from '../hash';
+import { resolveReferences } from '../references';
+import { runRules, loadRules, assertRuleIds } from '../rules';
+import { getOptionValue, getOptionValues, getPositionalArgs } from '../cli';
+
+export { toEnvVarName } from '../env-mapping';
 
 /**
  * Extract environment variables from deployment config
  */
-function extractEnvVars(deployment: DeploymentConfig): Record<string, string> {
-  const envVars: Record<string, string> = {};
-
-  // Fields that should be expanded into individual variables
-  const EXPANDABLE_FIELDS = ['moduleUrls', 'moduleApiBaseUrls'];
-
-  // Convert all deployment fields to environment variables
-  for (const [key, value] of Object.entries(deployment)) {
-    if (value !== null && value !== undefined) {
-      const envKey = toEnvVarName(key);
-      
-      // Handle complex types
-      if (typeof value === 'object') {
-        // Special handling: expand moduleUrls and moduleApiBaseUrls into VITE_* variables
-        if (EXPANDABLE_FIELDS.includes(key) && value && typeof value === 'object' && !Array.isArray(value)) {
-          for (const [moduleKey, moduleValue] of Object.entries(value)) {
-            // moduleUrls.iam → VITE_IAM_URL
-            // moduleApiBaseUrls.config → VITE_CONFIG_API_BASE_URL
-            let expandedKey: string;
-            if (key === 'moduleUrls') {
-              expandedKey = `VITE_${moduleKey.toUpperCase()}_URL`;
-            } else if (key === 'moduleApiBaseUrls') {
-              expandedKey = `VITE_${moduleKey.toUpperCase()}_API_BASE_URL`;
-            } else {
-              continue;
-            }
-            envVars[expandedKey] = String(moduleValue);
-          }
-        } else {
-          // Other objects: keep as JSON
-          envVars[envKey] = JSON.stringify(value);
-        }
-      } else if (typeof value === 'boolean') {
-        envVars[envKey] = value ? 'true' : 'false';
-      } else {
-        envVars[envKey] = String(value);
-      }
-    }
-  }
-
-  return envVars;
+export function extractEnvVars(deployment: DeploymentConfig, mapping: EnvMapping = DEFAULT_ENV_MAPPING): Record<string, string> {
+  return applyEnvMapping(deployment, mapping).envVars;
 }
 
 /**
@@ -172,16 +104,15 @@ function validateRequiredParams(component: Component, systemType: string): strin
       }
     }  }
 
-  // Check for deprecated fields
-  const deprecatedFields = [
-    'postgresHost', 'postgresPort', 'postgresUser', 'postgresPassword', 'postgresDb',
-    'mysqlHost', 'mysqlPort', 'mysqlUser', 'mysqlPassword', 'mysqlDatabase',
-    'mariadbDb', 'corsOrigins'
-  ];
+  // Fields required or forbidden by the systemType profile
+  for (const issue of checkProfile(component, systemType, component.componentId)) {
+    warnings.push(`WARN: ${issue.message}`);
+  }
 
-  for (const field of deprecatedFields) {
+  // Check for deprecated fields
+  for (const [field, replacement] of Object.entries(DEPRECATED_FIELDS)) {
     if ((deployment as any)[field] !== undefined) {
-      warnings.push(`WARN: Deprecated field '${field}' found. Please migrate to standard field name.`);
+      warnings.push(`WARN: Deprecated field '${field}' found. Use ${replacement} instead (migrate-config can rewrite it).`);
     }
   }
 
@@ -189,37 +120,131 @@ function validateRequiredParams(component: Component, systemType: string): strin
 }
 
 /**
- * Main extraction function
+ * Configuration loaded once and shared by every component extraction
  */
-export function extractConfig(options: ExtractOptions): ExtractedConfig {
-  // Read and parse config file
-  if (!fs.existsSync(options.configPath)) {
-    throw new Error(`Configuration file not found: ${options.configPath}`);
-  }
+interface LoadedConfig {
+  rawConfig: InfraConfig;          // Merged, before reference resolution (hashed)
+  config: InfraConfig;             // With ${ref:...} resolved
+  referenceIssues: ReferenceIssue[];
+  encryptionKey?: Buffer;          // For enc:v1: values
+  warnings: string[];
+}
 
-  const configContent = fs.readFileSync(options.configPath, 'utf-8');
-  let config: InfraConfig;
+/**
+ * Read config files, verify their signatures and content hashes, apply overlays and resolve references
+ */
+function loadForExtraction(options: Omit<ExtractOptions, 'componentId' | 'systemId'>): LoadedConfig {
+  const overlayPaths = options.overlayPaths || [];
+  const base = loadConfigFile(options.configPath);
+  const overlays = overlayPaths.map(overlayPath =>
+    loadConfigFile<InfraConfigOverlay>(overlayPath, `overlay ${overlayPath}`)
+  );
+  const warnings: string[] = [];
 
-  try {
-    config = JSON.parse(configContent);
-  } catch (error) {
-    throw new Error(`Failed to parse infra-config.json: ${(error as Error).message}`);
+  // With trusted keys, every file must carry a valid signature (fail closed)
+  const trustedKeys = options.trustedKeys ? loadTrustedKeys(options.trustedKeys) : undefined;
+  if (trustedKeys && trustedKeys.size === 0) {
+    throw new Error('Signature verification requested but no trusted keys given');
   }
 
-  // Discover component
-  const { component, systemId, systemType } = discoverComponent(config, options);
+  [base, ...overlays].forEach((content, index) => {
+    const file = index === 0 ? options.configPath : overlayPaths[index - 1];
+    if (trustedKeys) {
+      const signature = verifyFileSignature(file, content, trustedKeys);
+      if (signature.status !== 'valid') {
+        throw new Error(`Signature verification failed for ${file}: ${signature.message}`);
+      }
+    }
+    const check = verifyContentHash(content);
+    if (check.status === 'mismatch' && !options.skipHashCheck) {
+      throw new Error(`contentHash mismatch in ${file}: declared ${check.expected}, computed ${check.actual}. ` +
+        'The file was modified after hashing; run hash-config --write or pass skipHashCheck to bypass.');
+    }
+    if (check.status === 'legacy') {
+      warnings.push(`WARN: contentHash '${check.expected}' in ${file} is not a computed hash`);
+    }
+  });
+
+  // Apply overlays
+  const rawConfig = mergeConfigs(base, overlays);
+
+  // Resolve ${ref:...} cross-component references
+  const references = resolveReferences(rawConfig);
+
+  return {
+    rawConfig,
+    config: references.config,
+    referenceIssues: references.issues,
+    encryptionKey: loadEncryptionKey(options.encryptionKeyPath),
+    warnings
+  };
+}
+
+/**
+ * Extract one component from loaded configuration
+ */
+function extractComponent(
+  loaded: LoadedConfig,
+  component: Component,
+  systemId: string,
+  systemType: string,
+  options: Omit<ExtractOptions, 'componentId' | 'systemId'>
+): ExtractedConfig {
+  const { rawConfig, config } = loaded;
+
+  const referenceIssues = loaded.referenceIssues.filter(issue =>
+    issue.systemId === systemId && issue.componentId === component.componentId
+  );
+  if (referenceIssues.length > 0) {
+    throw new Error(`Unresolved references in ${component.componentId}:\n` +
+      referenceIssues.map(issue => `  ${issue.path}: ${issue.message}`).join('\n'));
+  }
 
   // Validate
-  const warnings = validateRequiredParams(component, systemType);
+  const warnings = [...loaded.warnings, ...validateRequiredParams(component, systemType)];
+
+  // Team and plugin rules: errors stop the extraction
+  const ruleIssues = runRules(config, options.rules || [], { systemId, componentId: component.componentId });
+  const ruleErrors = ruleIssues.filter(issue => issue.severity === 'error');
+  if (ruleErrors.length > 0) {
+    throw new Error(`Validation rules failed for ${component.componentId}:\n` +
+      ruleErrors.map(issue => `  ${issue.path}: ${issue.message} (${issue.ruleId})`).join('\n'));
+  }
+  warnings.push(...ruleIssues.map(issue => `WARN: ${issue.message} (${issue.ruleId})`));
+
+  const system = config.systems.find(s => s.systemId === systemId)!;
+
+  // Decrypt enc:v1: values, then resolve ${file:...}, ${env:...}, ${vault:...} secret references
+  const deployment = resolveSecretReferences(
+    decryptDeployment(component.deployment, loaded.encryptionKey),
+    { baseDir: path.dirname(path.resolve(options.configPath)) },
+    options.secretResolvers
+  );
+
+  // Environment policies on the resolved values: unsafe settings never reach the env file,
+  // also when they come from a reference or an encrypted value
+  const pack = options.policyPack ? getPolicyPack(options.policyPack) : selectPolicyPack(config.environment);
+  if (pack) {
+    const policyIssues = checkPolicies({ ...component, deployment }, pack, { config, system, path: component.componentId });
+    const policyErrors = policyIssues.filter(issue => issue.severity === 'error');
+    if (policyErrors.length > 0) {
+      throw new Error(`Policy violations for ${component.componentId} (${pack.name}):\n` +
+        policyErrors.map(issue => `  ${issue.path}: ${issue.message} (${issue.ruleId})`).join('\n'));
+    }
+    warnings.push(...policyIssues
+      .filter(issue => issue.severity === 'warning')
+      .map(issue => `WARN: ${issue.message} (${issue.ruleId})`));
+  }
 
-  // Extract environment variables
-  const envVars = extractEnvVars(component.deployment);
+  // Extract environment variables through the component's mapping
+  const { envVars, secretKeys } = applyEnvMapping(deployment, resolveEnvMapping(config, system, component));
 
   // Add metadata
   envVars.SYSTEM_ID = systemId;
   envVars.SYSTEM_TYPE = systemType;
   envVars.COMPONENT_ID = component.componentId;
   envVars.COMPONENT_TYPE = component.componentType;
+  envVars.INFRA_CONFIG_HASH = computeContentHash(rawConfig);
   if (config.version) {
     envVars.INFRA_CONFIG_VERSION = String(config.version);
   }
@@ -228,11 +253,6 @@ export function extractConfig(options: ExtractOptions): ExtractedConfig {
     envVars.ENVIRONMENT = config.environment; // For docker-compose compatibility
   }
 
-  // Compatibility mappings for legacy field names
-  if (envVars.OIDC_REDIRECT_URI && !envVars.OIDC_GUI_REDIRECT_URIS) {
-    envVars.OIDC_GUI_REDIRECT_URIS = envVars.OIDC_REDIRECT_URI;
-  }
-
   return {
     componentId: component.componentId,
     systemId,
@@ -240,10 +260,130 @@ export function extractConfig(options: ExtractOptions): ExtractedConfig {
     componentType: component.componentType,
     endpoint: component.endpoint,
     envVars,
-    warnings
+    secretKeys,
+    warnings,
+    deployment
   };
 }
 
+/**
+ * Main extraction function
+ */
+export function extractConfig(options: ExtractOptions): ExtractedConfig {
+  const loaded = loadForExtraction(options);
+
+  // Discover component
+  const { component, systemId, systemType } = discoverComponent(loaded.config, options);
+
+  return extractComponent(loaded, component, systemId, systemType, options);
+}
+
+const FORMAT_EXTENSIONS: Record<OutputFormat, string> = {
+  dotenv: 'env',
+  shell: 'sh',
+  json: 'json',
+  k8s: 'yaml',
+  systemd: 'env'
+};
+
+/**
+ * Extract every enabled component into its own file under outputDir.
+ *
+ * File names come from `pattern` ({systemId}, {systemType}, {componentId},
+ * {componentType}, {environment}, {ext}). A component that fails to extract is
+ * recorded as failed in the manifest and does not stop the others.
+ */
+export function extractAll(options: ExtractAllOptions): ExtractManifest {
+  const format = options.format || 'dotenv';
+  const pattern = options.pattern || '{systemId}/{componentId}.{ext}';
+  const outputDir = path.resolve(options.outputDir);
+  const loaded = loadForExtraction(options);
+
+  if (!loaded.config.systems || loaded.config.systems.length === 0) {
+    throw new Error('No systems found in infra-config.json');
+  }
+  const systems = loaded.config.systems.filter(system => !options.systemId || system.systemId === options.systemId);
+  if (systems.length === 0) {
+    throw new Error(`System '${options.systemId}' not found in infra-config.json`);
+  }
+
+  const manifest: ExtractManifest = {
+    generatedAtUtc: new Date().toISOString(),
+    configPath: options.configPath,
+    overlayPaths: options.overlayPaths || [],
+    environment: loaded.config.environment,
+    contentHash: computeContentHash(loaded.rawConfig),
+    format,
+    components: []
+  };
+
+  // Every output path is known before anything is written, so two components
+  // sharing a file fail the run instead of one silently overwriting the other
+  const manifestPath = path.join(outputDir, 'manifest.json');
+  const owners = new Map<string, string>([[manifestPath, 'the manifest']]);
+  const pending: { entry: ExtractManifestEntry; component: Component; system: System; file: string; filePath: string }[] = [];
+
+  for (const system of systems) {
+    for (const component of system.components) {
+      const entry: ExtractManifestEntry = {
+        systemId: system.systemId,
+        componentId: component.componentId,
+        componentType: component.componentType,
+        status: 'generated',
+        warnings: []
+      };
+      manifest.components.push(entry);
+
+      if (component.enabled === false && !options.includeDisabled) {
+        entry.status = 'skipped';
+        continue;
+      }
+
+      const file = pattern.replace(/\{(\w+)\}/g, (placeholder: string, name: string) => {
+        const values: Record<string, string | undefined> = {
+          systemId: system.systemId,
+          systemType: system.systemType,
+          componentId: component.componentId,
+          componentType: component.componentType,
+          environment: loaded.config.environment,
+          ext: FORMAT_EXTENSIONS[format]
+        };
+        if (values[name] === undefined) {
+          throw new Error(`Unknown placeholder ${placeholder} in output pattern`);
+        }
+        return values[name] as string;
+      });
+      const filePath = path.resolve(outputDir, file);
+      if (path.relative(outputDir, filePath).startsWith('..')) {
+        throw new Error(`Output file '${file}' for ${component.componentId} is outside ${outputDir}`);
+      }
+      const owner = owners.get(filePath);
+      if (owner) {
+        throw new Error(`Output file '${file}' for ${system.systemId}/${component.componentId} is also written for ${owner}`);
+      }
+      owners.set(filePath, `${system.systemId}/${component.componentId}`);
+      pending.push({ entry, component, system, file, filePath });
+    }
+  }
+
+  for (const { entry, component, system, file, filePath } of pending) {
+    try {
+      const result = extractComponent(loaded, component, system.systemId, system.systemType, options);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, formatExtractedConfig(result, format), 'utf-8');
+      entry.file = file;
+      entry.warnings = result.warnings;
+    } catch (error) {
+      entry.status = 'failed';
+      entry.error = (error as Error).message;
+    }
+  }
+
+  fs.mkdirSync(outputDir, { recursive: true });
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + '\n', 'utf-8');
+  return manifest;
+}
+
 /**
  * CLI entry point
  */
@@ -260,12 +400,24 @@ Arguments:
 
 Options:
   --output, -o    Output file path (default: stdout)
+  --format, -f    dotenv (default), shell, json, k8s or systemd
+  --overlay       Overlay file applied on top of config-path (repeatable)
+  --all           Extract every enabled component into --output-dir
+  --output-dir    Directory for --all output (writes manifest.json)
+  --pattern       File name pattern for --all (default: {systemId}/{componentId}.{ext})
+  --include-disabled  Also extract disabled components with --all
+  --skip-hash-check  Do not fail when contentHash does not match the content
+  --rules         Rules file (.json), module path or npm package with extra rules (repeatable)
+  --policy        Policy pack to apply instead of the one selected by environment (e.g. prod)
+  --trusted-key   Ed25519 public key (PEM); requires a valid <file>.sig for every config file (repeatable)
+  --key-file      AES-256 key for enc:v1: values (default: $INFRA_CONFIG_KEY)
   --validate      Only validate, don't extract
   --help, -h      Show this help
 
 Environment Variables:
   COMPONENT_ID    Component to extract (alternative to CLI arg)
   SYSTEM_ID       System containing the component (optional)
+  INFRA_CONFIG_KEY  AES-256 key (base64 or hex) for enc:v1: values
 
 Examples:
   # Auto-discover component
@@ -277,23 +429,101 @@ Examples:
   # Use environment variable
   COMPONENT_ID=infra-iam-a extract-config ./infra-config.json > .env.deployment
 
+  # Apply a production overlay
+  extract-config ./infra-config.json infra-iam-a --overlay ./infra-config.prod.json
+
+  # Kubernetes ConfigMap + Secret
+  extract-config ./infra-config.json infra-iam-a --format k8s | kubectl apply -f -
+
+  # Every component, one file each, plus manifest.json
+  extract-config ./infra-config.json --all --output-dir ./env
+
   # Validate only
   extract-config ./infra-config.json --validate
 `);
     process.exit(0);
   }
 
-  const configPath = path.resolve(args[0]);
-  const componentId = args[1] && !args[1].startsWith('--') ? args[1] : undefined;
+  const positional = getPositionalArgs(args, ['--output', '-o', '--overlay', '--format', '-f', '--output-dir', '--pattern', '--rules', '--policy', '--trusted-key', '--key-file']);
+  const configPath = path.resolve(positional[0]);
+  const componentId = positional[1];
   const validateOnly = args.includes('--validate');
-  const outputIndex = args.indexOf('--output') >= 0 ? args.indexOf('--output') : args.indexOf('-o');
-  const outputPath = outputIndex >= 0 && args[outputIndex + 1] ? path.resolve(args[outputIndex + 1]) : undefined;
+  const output = getOptionValue(args, '--output', '-o');
+  const outputPath = output ? path.resolve(output) : undefined;
+  const overlayPaths = getOptionValues(args, '--overlay').map(overlay => path.resolve(overlay));
+  const format = (getOptionValue(args, '--format', '-f') || 'dotenv') as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    console.error(`ERROR: Unknown format '${format}'. Must be one of: ${OUTPUT_FORMATS.join(', ')}`);
+    process.exit(1);
+  }
+
+  const policyPack = getOptionValue(args, '--policy');
+  const trustedKeyArgs = getOptionValues(args, '--trusted-key');
+  const trustedKeys = trustedKeyArgs.length > 0 ? trustedKeyArgs.map(key => path.resolve(key)) : undefined;
+  const keyFile = getOptionValue(args, '--key-file');
+  const encryptionKeyPath = keyFile ? path.resolve(keyFile) : undefined;
+  let rules;
+  try {
+    rules = getOptionValues(args, '--rules').flatMap(source => loadRules(source));
+    assertRuleIds(rules);
+    if (policyPack) getPolicyPack(policyPack);
+  } catch (error) {
+    console.error(`ERROR: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  if (args.includes('--all')) {
+    const outputDir = getOptionValue(args, '--output-dir');
+    if (!outputDir) {
+      console.error('ERROR: --all requires --output-dir');
+      process.exit(1);
+    }
+    try {
+      const manifest = extractAll({
+        configPath,
+        overlayPaths,
+        outputDir,
+        format,
+        pattern: getOptionValue(args, '--pattern'),
+        includeDisabled: args.includes('--include-disabled'),
+        skipHashCheck: args.includes('--skip-hash-check'),
+        rules,
+        policyPack,
+        trustedKeys,
+        encryptionKeyPath
+      });
+
+      for (const entry of manifest.components) {
+        entry.warnings.forEach(warn => console.error(`${entry.componentId}: ${warn}`));
+        if (entry.status === 'generated') {
+          console.error(`✓ ${entry.componentId} → ${entry.file}`);
+        } else if (entry.status === 'skipped') {
+          console.error(`- ${entry.componentId} skipped (disabled)`);
+        } else {
+          console.error(`❌ ${entry.componentId}: ${entry.error}`);
+        }
+      }
+
+      const failed = manifest.components.filter(entry => entry.status === 'failed').length;
+      console.error(`✓ Manifest written to ${path.join(path.resolve(outputDir), 'manifest.json')}`);
+      process.exit(failed > 0 ? 1 : 0);
+    } catch (error) {
+      console.error(`ERROR: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  }
 
   try {
     const result = extractConfig({
       configPath,
       componentId,
-      validateOnly
+      overlayPaths,
+      validateOnly,
+      skipHashCheck: args.includes('--skip-hash-check'),
+      rules,
+      policyPack,
+      trustedKeys,
+      encryptionKeyPath
     });
 
     // Show warnings
@@ -307,27 +537,14 @@ Examples:
     }
 
     // Generate output
-    const lines: string[] = [];
-    lines.push('# Generated by @pharma/infraconfig');
-    lines.push(`# Component: ${result.componentId}`);
-    lines.push(`# System: ${result.systemId} (${result.systemType})`);
-    lines.push(`# Generated: ${new Date().toISOString()}`);
-    lines.push('');
-
-    // Sort keys for consistent output
-    const sortedKeys = Object.keys(result.envVars).sort();
-    for (const key of sortedKeys) {
-      lines.push(`${key}=${result.envVars[key]}`);
-    }
-
-    const output = lines.join('\n');
+    const rendered = formatExtractedConfig(result, format);
 
     // Write output
     if (outputPath) {
-      fs.writeFileSync(outputPath, output, 'utf-8');
+      fs.writeFileSync(outputPath, rendered, 'utf-8');
       console.error(`✓ Configuration extracted to ${outputPath}`);
     } else {
-      console.log(output);
+      process.stdout.write(rendered);
     }
 
     console.error(`✓ SUCCESS: Extracted configuration for ${result.componentId}`);
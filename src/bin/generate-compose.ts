@@ -0,0 +1,118 @@
+#!/usr/bin/env node
+/**
+ * docker-compose Generator
+ *
+ * Writes the docker-compose.yml for a system or a whole configuration, and
+ * optionally the env files its services read, instead of maintaining both by
+ * hand in the deploy scripts.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ComposeOptions, ComposeResult } from '../types';
+import { loadConfig } from '../overlay';
+import { resolveReferences } from '../references';
+import { generateCompose } from '../compose';
+import { toYaml } from '../yaml';
+import { extractAll } from './extract-config';
+import { getOptionValue, getOptionValues, getPositionalArgs } from '../cli';
+
+/**
+ * Generate the compose file for configPath with overlays applied
+ */
+export function generateComposeFile(configPath: string, options: ComposeOptions & { overlayPaths?: string[] } = {}): ComposeResult & { yaml: string } {
+  const { overlayPaths, ...composeOptions } = options;
+  const { config } = resolveReferences(loadConfig(configPath, overlayPaths));
+  const result = generateCompose(config, composeOptions);
+  const header = `# Generated by generate-compose from ${path.basename(configPath)}; do not edit\n`;
+  return { ...result, yaml: header + toYaml(result.compose) };
+}
+
+function main() {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+    console.log(`
+Usage: generate-compose <config-path> [system-id] [options]
+
+Arguments:
+  config-path     Path to infra-config.json file
+  system-id       Only this system (default: every system)
+
+Options:
+  --output, -o    Output file path (default: stdout)
+  --overlay       Overlay file applied on top of config-path (repeatable)
+  --env-dir       Directory of the env files, relative to the compose file (default: env)
+  --extract       Also write the env files (extract-config --all) of the same systems into --env-dir
+  --key-file      AES-256 key for enc:v1: values when extracting (default: $INFRA_CONFIG_KEY)
+  --image         Image name pattern: {systemId}, {systemType}, {componentId},
+                  {componentType}, {environment} (default: {componentId}:latest)
+  --health-path   Path the healthcheck requests (default: /health)
+  --include-disabled  Also add components with enabled: false
+  --help, -h      Show this help
+
+Examples:
+  generate-compose ./infra-config.json infra-iam -o ./deploy/docker-compose.yml --extract
+  generate-compose ./infra-config.json --overlay ./infra-config.prod.json --image 'registry.pharma.local/{componentId}:{environment}'
+`);
+    process.exit(0);
+  }
+
+  const positional = getPositionalArgs(args, ['--output', '-o', '--overlay', '--env-dir', '--key-file', '--image', '--health-path']);
+  const configPath = path.resolve(positional[0]);
+  const overlayPaths = getOptionValues(args, '--overlay').map(overlay => path.resolve(overlay));
+  const output = getOptionValue(args, '--output', '-o');
+  const envDir = getOptionValue(args, '--env-dir') || 'env';
+  const keyFile = getOptionValue(args, '--key-file');
+  const includeDisabled = args.includes('--include-disabled');
+
+  try {
+    const result = generateComposeFile(configPath, {
+      overlayPaths,
+      systemId: positional[1],
+      envDir,
+      imagePattern: getOptionValue(args, '--image'),
+      healthCheckPath: getOptionValue(args, '--health-path'),
+      includeDisabled
+    });
+
+    for (const warning of result.warnings) {
+      console.error(`WARN: ${warning}`);
+    }
+
+    if (args.includes('--extract')) {
+      const outputDir = path.resolve(output ? path.dirname(path.resolve(output)) : process.cwd(), envDir);
+      const manifest = extractAll({
+        configPath,
+        overlayPaths,
+        outputDir,
+        systemId: positional[1],
+        includeDisabled,
+        encryptionKeyPath: keyFile ? path.resolve(keyFile) : undefined
+      });
+      const failed = manifest.components.filter(entry => entry.status === 'failed');
+      for (const entry of failed) {
+        console.error(`✗ ${entry.componentId}: ${entry.error}`);
+      }
+      if (failed.length > 0) {
+        throw new Error(`${failed.length} env file(s) could not be extracted`);
+      }
+      console.error(`✓ Env files written to ${outputDir}`);
+    }
+
+    if (output) {
+      fs.writeFileSync(path.resolve(output), result.yaml, 'utf-8');
+      console.error(`✓ Compose file written to ${path.resolve(output)}`);
+    } else {
+      process.stdout.write(result.yaml);
+    }
+    process.exit(0);
+  } catch (error) {
+    console.error(`ERROR: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
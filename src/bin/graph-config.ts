@@ -0,0 +1,70 @@
+#!/usr/bin/env node
+/**
+ * Topology Graph Tool
+ *
+ * Emits the dependency graph between components, derived from their service
+ * URLs, as Graphviz DOT or Mermaid. URLs that point at no component, the
+ * wrong component or a disabled one are drawn red and reported on stderr.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { GraphFormat } from '../types';
+import { loadConfig } from '../overlay';
+import { resolveReferences } from '../references';
+import { buildTopology, checkTopology, formatTopology, GRAPH_FORMATS } from '../topology';
+import { getOptionValue, getOptionValues, getPositionalArgs } from '../cli';
+
+function main() {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+    console.log(`
+Usage: graph-config <config-path> [options]
+
+Arguments:
+  config-path     Path to infra-config.json file
+
+Options:
+  --format, -f    Graph format: ${GRAPH_FORMATS.join(', ')} (default: dot)
+  --overlay       Overlay file applied on top of config-path (repeatable)
+  --output, -o    Output file path (default: stdout)
+  --help, -h      Show this help
+
+Examples:
+  graph-config ./infra-config.json | dot -Tsvg > topology.svg
+  graph-config ./infra-config.json --format mermaid -o topology.mmd
+`);
+    process.exit(0);
+  }
+
+  const configPath = path.resolve(getPositionalArgs(args, ['--format', '-f', '--overlay', '--output', '-o'])[0]);
+  const overlayPaths = getOptionValues(args, '--overlay').map(overlay => path.resolve(overlay));
+  const format = (getOptionValue(args, '--format', '-f') || 'dot') as GraphFormat;
+  const output = getOptionValue(args, '--output', '-o');
+
+  try {
+    const { config } = resolveReferences(loadConfig(configPath, overlayPaths));
+    const topology = buildTopology(config);
+    const rendered = formatTopology(topology, format);
+
+    for (const issue of checkTopology(topology)) {
+      console.error(`WARN: ${issue.path}: ${issue.message}`);
+    }
+
+    if (output) {
+      fs.writeFileSync(path.resolve(output), rendered, 'utf-8');
+      console.error(`✓ Graph written to ${path.resolve(output)}`);
+    } else {
+      process.stdout.write(rendered);
+    }
+    process.exit(0);
+  } catch (error) {
+    console.error(`ERROR: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
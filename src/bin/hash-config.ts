@@ -0,0 +1,76 @@
+#!/usr/bin/env node
+/**
+ * Content Hash Tool
+ *
+ * Computes the canonical contentHash of infra-config.json, optionally writing
+ * it back into the file or checking it against the declared value.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadConfigFile } from '../overlay';
+import { computeContentHash, verifyContentHash } from '../hash';
+
+/**
+ * Compute the contentHash of a file and write it into the file's contentHash field
+ */
+export function writeContentHash(configPath: string): string {
+  const config = loadConfigFile(configPath);
+  const contentHash = computeContentHash(config);
+  fs.writeFileSync(configPath, JSON.stringify({ ...config, contentHash }, null, 2) + '\n', 'utf-8');
+  return contentHash;
+}
+
+function main() {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+    console.log(`
+Usage: hash-config <config-path> [options]
+
+Arguments:
+  config-path     Path to infra-config.json file
+
+Options:
+  --write         Store the computed hash in the file's contentHash field
+  --check         Exit with code 1 unless contentHash matches the content
+  --help, -h      Show this help
+
+Examples:
+  hash-config ./infra-config.json
+  hash-config ./infra-config.json --write
+  hash-config ./infra-config.json --check
+`);
+    process.exit(0);
+  }
+
+  const configPath = path.resolve(args.find(arg => !arg.startsWith('-'))!);
+
+  try {
+    if (args.includes('--write')) {
+      const contentHash = writeContentHash(configPath);
+      console.log(contentHash);
+      console.error(`✓ contentHash written to ${configPath}`);
+      process.exit(0);
+    }
+
+    const check = verifyContentHash(loadConfigFile(configPath));
+    console.log(check.actual);
+
+    if (args.includes('--check')) {
+      if (check.status !== 'match') {
+        console.error(`❌ contentHash ${check.status}: declared ${check.expected || '(none)'}, computed ${check.actual}`);
+        process.exit(1);
+      }
+      console.error('✓ contentHash matches');
+    }
+    process.exit(0);
+  } catch (error) {
+    console.error(`ERROR: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,139 @@
+#!/usr/bin/env node
+/**
+ * Environment Import Tool
+ *
+ * Onboards a legacy service: reads its .env file or docker-compose
+ * environment: section, maps the variables to a deployment block and prints
+ * the component, or inserts it into a system of infra-config.json.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Component, InfraConfig, ImportEnvOptions, ImportEnvResult } from '../types';
+import { loadConfigFile } from '../overlay';
+import { computeContentHash } from '../hash';
+import { parseEnvFile, parseComposeEnvironment, importEnvVars } from '../import-env';
+import { getOptionValue, getPositionalArgs } from '../cli';
+
+const COMPONENT_TYPES: Component['componentType'][] = ['AGENT', 'WEB'];
+
+function isComposeFile(envPath: string): boolean {
+  return /\.ya?ml$/i.test(envPath);
+}
+
+/**
+ * Add a component to a system, refusing duplicate component IDs
+ */
+export function insertComponent(config: InfraConfig, systemId: string, component: Component): InfraConfig {
+  const system = (config.systems || []).find(s => s.systemId === systemId);
+  if (!system) {
+    throw new Error(`System '${systemId}' not found in infra-config.json`);
+  }
+  for (const existing of config.systems) {
+    if (existing.components.some(c => c.componentId === component.componentId)) {
+      throw new Error(`Component '${component.componentId}' already exists in system '${existing.systemId}'`);
+    }
+  }
+  return {
+    ...config,
+    systems: config.systems.map(s => s === system ? { ...s, components: [...s.components, component] } : s)
+  };
+}
+
+/**
+ * Import a .env or docker-compose file as a component, optionally inserting
+ * it into options.configPath (written in place)
+ */
+export function importEnvFile(envPath: string, options: ImportEnvOptions = {}): ImportEnvResult {
+  if (!fs.existsSync(envPath)) {
+    throw new Error(`File not found: ${envPath}`);
+  }
+  const content = fs.readFileSync(envPath, 'utf-8');
+  let envVars: Record<string, string>;
+  try {
+    envVars = isComposeFile(envPath) ? parseComposeEnvironment(content, options.service) : parseEnvFile(content);
+  } catch (error) {
+    throw new Error(`Failed to read ${envPath}: ${(error as Error).message}`);
+  }
+
+  const componentId = options.componentId || envVars.COMPONENT_ID;
+  if (!componentId) {
+    throw new Error('No component ID: pass one or set COMPONENT_ID in the imported file');
+  }
+  const componentType = options.componentType || (envVars.COMPONENT_TYPE as Component['componentType']) || 'AGENT';
+  if (!COMPONENT_TYPES.includes(componentType)) {
+    throw new Error(`Invalid component type '${componentType}'. Must be one of: ${COMPONENT_TYPES.join(', ')}`);
+  }
+
+  const { deployment, issues } = importEnvVars(envVars);
+  const component = { componentId, componentType, deployment } as Component;
+
+  if (!options.configPath) {
+    return { component, issues };
+  }
+  if (!options.systemId) {
+    throw new Error('A system ID is required to insert the component');
+  }
+  const existing = loadConfigFile(options.configPath);
+  const updated = insertComponent(existing, options.systemId, component);
+  const config = existing.contentHash ? { ...updated, contentHash: computeContentHash(updated) } : updated;
+  fs.writeFileSync(options.configPath, JSON.stringify(config, null, 2) + '\n', 'utf-8');
+  return { component, issues, config };
+}
+
+function main() {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+    console.log(`
+Usage: import-env <env-file> [options]
+
+Arguments:
+  env-file        .env file, or docker-compose.yml (.yml/.yaml) to read a service's environment: from
+
+Options:
+  --component-id  Component ID (default: COMPONENT_ID from env-file)
+  --type          AGENT or WEB (default: COMPONENT_TYPE from env-file, else AGENT)
+  --service       docker-compose service to import (required when the file has several)
+  --config        infra-config.json to insert the component into (written in place)
+  --system        System to insert the component into (required with --config)
+  --help, -h      Show this help
+
+Without --config the component is printed as JSON.
+
+Examples:
+  import-env ./legacy/.env --component-id infra-iam-a
+  import-env ./docker-compose.yml --service iam-web --type WEB --component-id infra-iam-web
+  import-env ./legacy/.env --component-id infra-iam-a --config ./infra-config.json --system infra-iam
+`);
+    process.exit(0);
+  }
+
+  const positional = getPositionalArgs(args, ['--component-id', '--type', '--service', '--config', '--system']);
+  const configPath = getOptionValue(args, '--config');
+
+  try {
+    const result = importEnvFile(path.resolve(positional[0]), {
+      componentId: getOptionValue(args, '--component-id'),
+      componentType: getOptionValue(args, '--type') as Component['componentType'] | undefined,
+      service: getOptionValue(args, '--service'),
+      configPath: configPath ? path.resolve(configPath) : undefined,
+      systemId: getOptionValue(args, '--system')
+    });
+
+    result.issues.forEach(issue => console.error(`WARN: ${issue.variable}: ${issue.message}`));
+    if (result.config) {
+      console.error(`✓ Added ${result.component.componentId} to ${getOptionValue(args, '--system')} in ${path.resolve(configPath!)}`);
+    } else {
+      console.log(JSON.stringify(result.component, null, 2));
+    }
+    process.exit(0);
+  } catch (error) {
+    console.error(`ERROR: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
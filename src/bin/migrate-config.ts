@@ -0,0 +1,109 @@
+#!/usr/bin/env node
+/**
+ * Configuration Migration Tool
+ *
+ * Rewrites deprecated fields to their standard names and bumps schemaVersion
+ * through the registered migrations, in place or to a new file.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { MigrateOptions, MigrationResult } from '../types';
+import { loadConfigFile } from '../overlay';
+import { migrateConfig, formatLineDiff } from '../migrate';
+import { getOptionValue, getPositionalArgs } from '../cli';
+
+/**
+ * Migrate a config file. Writes to outputPath (default: the file itself)
+ * unless dryRun is set or there are unresolved conflicts.
+ */
+export function migrateConfigFile(
+  configPath: string,
+  options: MigrateOptions & { outputPath?: string; dryRun?: boolean } = {}
+): MigrationResult & { diff: string; written: boolean } {
+  const original = loadConfigFile(configPath);
+  const result = migrateConfig(original, options);
+  const diff = formatLineDiff(JSON.stringify(original, null, 2), JSON.stringify(result.config, null, 2));
+
+  const outputPath = options.outputPath || configPath;
+  const written = !options.dryRun && result.conflicts.length === 0 && (result.changes.length > 0 || outputPath !== configPath);
+  if (written) {
+    fs.writeFileSync(outputPath, JSON.stringify(result.config, null, 2) + '\n', 'utf-8');
+  }
+
+  return { ...result, diff, written };
+}
+
+function main() {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+    console.log(`
+Usage: migrate-config <config-path> [options]
+
+Arguments:
+  config-path     Path to infra-config.json file
+
+Options:
+  --output, -o    Write the migrated config here instead of in place
+  --dry-run       Print a diff of the changes without writing
+  --on-conflict   When old and new field both exist with different values:
+                  fail (default), keep-new, keep-old
+  --help, -h      Show this help
+
+Examples:
+  migrate-config ./infra-config.json --dry-run
+  migrate-config ./infra-config.json -o ./infra-config.migrated.json
+  migrate-config ./infra-config.json --on-conflict keep-new
+`);
+    process.exit(0);
+  }
+
+  const configPath = path.resolve(getPositionalArgs(args, ['--output', '-o', '--on-conflict'])[0]);
+  const output = getOptionValue(args, '--output', '-o');
+  const onConflict = getOptionValue(args, '--on-conflict') || 'fail';
+  const dryRun = args.includes('--dry-run');
+
+  if (!['fail', 'keep-new', 'keep-old'].includes(onConflict)) {
+    console.error(`ERROR: Unknown --on-conflict '${onConflict}'. Must be one of: fail, keep-new, keep-old`);
+    process.exit(1);
+  }
+
+  try {
+    const result = migrateConfigFile(configPath, {
+      outputPath: output ? path.resolve(output) : undefined,
+      onConflict: onConflict as MigrateOptions['onConflict'],
+      dryRun
+    });
+
+    for (const change of result.changes) {
+      console.error(`  ${change.path}: ${change.description}`);
+    }
+    for (const conflict of result.conflicts) {
+      console.error(`❌ ${conflict.path}: both ${conflict.oldField} and ${conflict.newField} are set with different values`);
+    }
+
+    if (dryRun) {
+      if (result.diff) {
+        console.log(result.diff);
+      }
+    } else if (result.written) {
+      console.error(`✓ Migrated ${result.fromVersion} → ${result.toVersion} (${result.changes.length} change(s)) written to ${output ? path.resolve(output) : configPath}`);
+    } else if (result.conflicts.length === 0) {
+      console.error('✓ Already up to date');
+    }
+
+    if (result.conflicts.length > 0) {
+      console.error('Resolve the conflicts by hand or rerun with --on-conflict keep-new|keep-old');
+      process.exit(1);
+    }
+    process.exit(0);
+  } catch (error) {
+    console.error(`ERROR: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,235 @@
+#!/usr/bin/env node
+/**
+ * Configuration Promotion Tool
+ *
+ * Manages the status/version lifecycle of infra-config.json:
+ *
+ *   DRAFT --promote--> CURRENT --next promotion--> SUPERSEDED
+ *
+ * Promotion validates the DRAFT, gives it the next version, sets status,
+ * promotedAtUtc, generatedBy and contentHash, and makes it the CURRENT file.
+ * Every promoted version is also kept in a local history directory, where the
+ * previous CURRENT version is marked SUPERSEDED. A rollback promotes a copy of
+ * an older version under a new version number, so versions only ever grow.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { InfraConfig, ConfigHistoryEntry, ConfigStatus, PromoteOptions, PromotionResult, ValidationIssue } from '../types';
+import { loadConfigFile } from '../overlay';
+import { computeContentHash } from '../hash';
+import { validate } from './validate-config';
+import { getOptionValue, getPositionalArgs } from '../cli';
+
+const HISTORY_DIR = '.infra-config-history';
+
+function historyDirFor(outputPath: string, options: PromoteOptions): string {
+  return options.historyDir ? path.resolve(options.historyDir) : path.join(path.dirname(outputPath), HISTORY_DIR);
+}
+
+function historyFile(historyDir: string, outputPath: string, version: number): string {
+  return path.join(historyDir, `${path.basename(outputPath, '.json')}.v${version}.json`);
+}
+
+function writeConfig(filePath: string, config: InfraConfig): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(config, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Set a lifecycle status and recompute the content hash
+ */
+function withStatus(config: InfraConfig, status: ConfigStatus): InfraConfig {
+  const updated = { ...config, status };
+  return { ...updated, contentHash: computeContentHash(updated) };
+}
+
+/**
+ * Promoted versions of outputPath, oldest first
+ */
+export function configHistory(outputPath: string, options: Pick<PromoteOptions, 'historyDir'> = {}): ConfigHistoryEntry[] {
+  const target = path.resolve(outputPath);
+  const historyDir = historyDirFor(target, options);
+  if (!fs.existsSync(historyDir)) {
+    return [];
+  }
+
+  const pattern = new RegExp(`^${path.basename(target, '.json').replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\.v(\\d+)\\.json$`);
+  return fs.readdirSync(historyDir)
+    .filter(name => pattern.test(name))
+    .map(name => {
+      const file = path.join(historyDir, name);
+      const config = loadConfigFile(file, file);
+      return {
+        version: Number(name.match(pattern)![1]),
+        status: config.status || '',
+        promotedAtUtc: config.promotedAtUtc,
+        contentHash: config.contentHash,
+        file
+      };
+    })
+    .sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Make config the CURRENT version of outputPath: supersede the previous
+ * CURRENT version, then write the new one to the history and to outputPath
+ */
+function activate(config: InfraConfig, outputPath: string, options: PromoteOptions, warnings: ValidationIssue[]): PromotionResult {
+  const historyDir = historyDirFor(outputPath, options);
+  const history = configHistory(outputPath, options);
+  const now = (options.now || new Date()).toISOString();
+
+  // The CURRENT file, or for in-place promotion of a DRAFT, the CURRENT copy in the history
+  let previous: InfraConfig | undefined;
+  if (fs.existsSync(outputPath)) {
+    const existing = loadConfigFile(outputPath);
+    if (existing.status === 'CURRENT') {
+      previous = existing;
+    }
+  }
+  const currentEntry = [...history].reverse().find(entry => entry.status === 'CURRENT');
+  if (!previous && currentEntry) {
+    previous = loadConfigFile(currentEntry.file);
+  }
+
+  const version = Math.max(config.version || 0, previous?.version || 0, ...history.map(entry => entry.version)) + 1;
+  const promoted = withStatus({
+    ...config,
+    version,
+    promotedAtUtc: now,
+    generatedBy: { tool: 'promote-config', generatedAtUtc: now }
+  }, 'CURRENT');
+
+  if (previous) {
+    writeConfig(historyFile(historyDir, outputPath, previous.version || 0), withStatus(previous, 'SUPERSEDED'));
+  }
+  // Hand-edited history: never leave two CURRENT versions behind
+  for (const entry of history) {
+    if (entry.status === 'CURRENT' && entry.version !== previous?.version) {
+      writeConfig(entry.file, withStatus(loadConfigFile(entry.file), 'SUPERSEDED'));
+    }
+  }
+
+  const file = historyFile(historyDir, outputPath, version);
+  writeConfig(file, promoted);
+  writeConfig(outputPath, promoted);
+
+  return { config: promoted, version, previousVersion: previous?.version, outputPath, historyFile: file, warnings };
+}
+
+/**
+ * Validate a DRAFT config and promote it to CURRENT
+ */
+export function promoteConfig(draftPath: string, options: PromoteOptions = {}): PromotionResult {
+  const draft = loadConfigFile(draftPath);
+  if (draft.status !== 'DRAFT') {
+    throw new Error(`Only DRAFT configurations can be promoted (status is ${draft.status ? `'${draft.status}'` : 'not set'})`);
+  }
+
+  // The draft's contentHash is stale by nature; promotion recomputes it
+  const result = validate(draftPath, { skipHashCheck: true, rules: options.rules, policyPack: options.policyPack });
+  const issues = result.issues.filter(issue => !issue.ruleId.startsWith('hash/'));
+  const errors = issues.filter(issue => issue.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(`Validation failed, not promoting:\n` +
+      errors.map(issue => `  ${issue.path}: ${issue.message} (${issue.ruleId})`).join('\n'));
+  }
+
+  const outputPath = path.resolve(options.outputPath || draftPath);
+  return activate(draft, outputPath, options, issues.filter(issue => issue.severity === 'warning'));
+}
+
+/**
+ * Promote a copy of an earlier version again, under a new version number
+ */
+export function rollbackConfig(outputPath: string, version: number, options: PromoteOptions = {}): PromotionResult {
+  const target = path.resolve(outputPath);
+  const entry = configHistory(target, options).find(candidate => candidate.version === version);
+  if (!entry) {
+    throw new Error(`Version ${version} not found in the history of ${target}`);
+  }
+  if (entry.status === 'CURRENT') {
+    throw new Error(`Version ${version} is already CURRENT`);
+  }
+  return activate(loadConfigFile(entry.file), target, options, []);
+}
+
+function main() {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+    console.log(`
+Usage: promote-config <draft-path> [options]
+       promote-config history <config-path> [options]
+       promote-config rollback <version> <config-path> [options]
+
+Arguments:
+  draft-path      DRAFT infra-config.json to validate and promote
+  config-path     CURRENT infra-config.json managed by promote-config
+  version         Earlier version to make CURRENT again
+
+Options:
+  --output, -o    CURRENT file to replace (default: draft-path, promoted in place)
+  --history-dir   History directory (default: ${HISTORY_DIR} next to the CURRENT file)
+  --policy        Policy pack to validate against instead of the one selected by environment
+  --help, -h      Show this help
+
+Examples:
+  promote-config ./infra-config.draft.json -o ./infra-config.json
+  promote-config history ./infra-config.json
+  promote-config rollback 3 ./infra-config.json
+`);
+    process.exit(0);
+  }
+
+  const positional = getPositionalArgs(args, ['--output', '-o', '--history-dir', '--policy']);
+  const historyDir = getOptionValue(args, '--history-dir');
+  const policyPack = getOptionValue(args, '--policy');
+
+  try {
+    if (positional[0] === 'history') {
+      const history = configHistory(path.resolve(positional[1]), { historyDir });
+      if (history.length === 0) {
+        console.error('No promoted versions');
+      }
+      for (const entry of history) {
+        console.log(`v${entry.version}\t${entry.status}\t${entry.promotedAtUtc || '-'}\t${entry.contentHash || '-'}`);
+      }
+      process.exit(0);
+    }
+
+    let result: PromotionResult;
+    if (positional[0] === 'rollback') {
+      const version = Number(positional[1]);
+      if (!Number.isInteger(version) || !positional[2]) {
+        console.error('ERROR: Usage: promote-config rollback <version> <config-path>');
+        process.exit(1);
+      }
+      result = rollbackConfig(path.resolve(positional[2]), version, { historyDir });
+      console.error(`✓ Rolled back to the content of v${version}`);
+    } else {
+      const output = getOptionValue(args, '--output', '-o');
+      result = promoteConfig(path.resolve(positional[0]), {
+        outputPath: output ? path.resolve(output) : undefined,
+        historyDir,
+        policyPack
+      });
+      result.warnings.forEach(issue => console.error(`WARN: ${issue.path}: ${issue.message} (${issue.ruleId})`));
+    }
+
+    if (result.previousVersion !== undefined) {
+      console.error(`  v${result.previousVersion} → SUPERSEDED`);
+    }
+    console.error(`✓ v${result.version} is CURRENT: ${result.outputPath}`);
+    console.log(result.config.contentHash);
+    process.exit(0);
+  } catch (error) {
+    console.error(`ERROR: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
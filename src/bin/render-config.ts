@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+/**
+ * Configuration Renderer
+ *
+ * Applies overlay files to a base infra-config.json and writes the fully
+ * merged InfraConfig, showing exactly what will be deployed.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { InfraConfig } from '../types';
+import { loadConfig } from '../overlay';
+import { getOptionValue, getOptionValues, getPositionalArgs } from '../cli';
+
+/**
+ * Render the merged configuration as formatted JSON
+ */
+export function renderConfig(configPath: string, overlayPaths: string[] = []): string {
+  const config: InfraConfig = loadConfig(configPath, overlayPaths);
+  return JSON.stringify(config, null, 2) + '\n';
+}
+
+function main() {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+    console.log(`
+Usage: render-config <config-path> [options]
+
+Arguments:
+  config-path     Path to base infra-config.json file
+
+Options:
+  --overlay       Overlay file applied on top of config-path (repeatable)
+  --output, -o    Output file path (default: stdout)
+  --help, -h      Show this help
+
+Examples:
+  render-config ./infra-config.json --overlay ./infra-config.prod.json
+  render-config ./infra-config.json --overlay ./prod.json --overlay ./prod-eu.json -o rendered.json
+`);
+    process.exit(0);
+  }
+
+  const configPath = path.resolve(getPositionalArgs(args, ['--overlay', '--output', '-o'])[0]);
+  const overlayPaths = getOptionValues(args, '--overlay').map(overlay => path.resolve(overlay));
+  const output = getOptionValue(args, '--output', '-o');
+
+  try {
+    const rendered = renderConfig(configPath, overlayPaths);
+
+    if (output) {
+      fs.writeFileSync(path.resolve(output), rendered, 'utf-8');
+      console.error(`✓ Rendered configuration written to ${path.resolve(output)}`);
+    } else {
+      process.stdout.write(rendered);
+    }
+    process.exit(0);
+  } catch (error) {
+    console.error(`ERROR: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
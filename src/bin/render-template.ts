@@ -0,0 +1,102 @@
+#!/usr/bin/env node
+/**
+ * Template Renderer
+ *
+ * Renders a config file template (nginx.conf, runtime-config.js, my.cnf, ...)
+ * for one component. The component is extracted exactly like extract-config
+ * does, so the template sees the same resolved values as the env file.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExtractOptions } from '../types';
+import { extractConfig } from './extract-config';
+import { renderTemplate, templateContext } from '../template';
+import { getPolicyPack } from '../policies';
+import { loadRules } from '../rules';
+import { getOptionValue, getOptionValues, getPositionalArgs } from '../cli';
+
+/**
+ * Render the template in templatePath for the component selected by options
+ */
+export function renderComponentTemplate(templatePath: string, options: ExtractOptions): string {
+  if (!fs.existsSync(templatePath)) {
+    throw new Error(`Template not found: ${templatePath}`);
+  }
+  const template = fs.readFileSync(templatePath, 'utf-8');
+  return renderTemplate(template, templateContext(extractConfig(options)), path.basename(templatePath));
+}
+
+function main() {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+    console.log(`
+Usage: render-template <config-path> [component-id] --template <file> [options]
+
+Arguments:
+  config-path     Path to infra-config.json file
+  component-id    Component to render for (optional - will auto-discover)
+
+Options:
+  --template, -t  Template file
+  --output, -o    Output file path (default: stdout)
+  --overlay       Overlay file applied on top of config-path (repeatable)
+  --skip-hash-check  Do not fail when contentHash does not match the content
+  --rules         Rules file (.json), module path or npm package with extra rules (repeatable)
+  --policy        Policy pack to apply instead of the one selected by environment
+  --trusted-key   Ed25519 public key (PEM); requires a valid <file>.sig for every config file (repeatable)
+  --key-file      AES-256 key for enc:v1: values (default: $INFRA_CONFIG_KEY)
+  --help, -h      Show this help
+
+Template variables: deployment.*, env.*, system.systemId, system.systemType,
+component.componentId, component.componentType, component.endpoint,
+config.environment, config.version, config.contentHash
+
+Examples:
+  render-template ./infra-config.json infra-iam-web -t ./nginx.conf.tpl -o /etc/nginx/conf.d/iam.conf
+  render-template ./infra-config.json infra-im-web -t ./runtime-config.js.tpl -o ./dist/runtime-config.js
+`);
+    process.exit(0);
+  }
+
+  const positional = getPositionalArgs(args, ['--template', '-t', '--output', '-o', '--overlay', '--rules', '--policy', '--trusted-key', '--key-file']);
+  const templateFile = getOptionValue(args, '--template', '-t');
+  if (!positional[0] || !templateFile) {
+    console.error('ERROR: Usage: render-template <config-path> [component-id] --template <file>');
+    process.exit(1);
+  }
+  const output = getOptionValue(args, '--output', '-o');
+  const policyPack = getOptionValue(args, '--policy');
+  const trustedKeyArgs = getOptionValues(args, '--trusted-key');
+  const keyFile = getOptionValue(args, '--key-file');
+
+  try {
+    if (policyPack) getPolicyPack(policyPack);
+    const rendered = renderComponentTemplate(path.resolve(templateFile), {
+      configPath: path.resolve(positional[0]),
+      componentId: positional[1],
+      overlayPaths: getOptionValues(args, '--overlay').map(overlay => path.resolve(overlay)),
+      skipHashCheck: args.includes('--skip-hash-check'),
+      rules: getOptionValues(args, '--rules').flatMap(source => loadRules(source)),
+      policyPack,
+      trustedKeys: trustedKeyArgs.length > 0 ? trustedKeyArgs.map(key => path.resolve(key)) : undefined,
+      encryptionKeyPath: keyFile ? path.resolve(keyFile) : undefined
+    });
+
+    if (output) {
+      fs.writeFileSync(path.resolve(output), rendered, 'utf-8');
+      console.error(`✓ Rendered ${templateFile} to ${path.resolve(output)}`);
+    } else {
+      process.stdout.write(rendered);
+    }
+    process.exit(0);
+  } catch (error) {
+    console.error(`ERROR: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
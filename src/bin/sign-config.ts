@@ -0,0 +1,116 @@
+#!/usr/bin/env node
+/**
+ * Configuration Signing Tool
+ *
+ * Writes a detached Ed25519 signature (<file>.sig) for infra-config.json or
+ * an overlay, verifies one against trusted public keys, and generates key
+ * pairs. extract-config and validate-config check signatures with
+ * --trusted-key.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigSignature, SignatureCheck } from '../types';
+import { loadConfigFile } from '../overlay';
+import { generateSigningKeyPair, loadTrustedKeys, signConfig, signaturePathFor, verifyFileSignature } from '../signature';
+import { getOptionValue, getOptionValues, getPositionalArgs } from '../cli';
+
+/**
+ * Sign a config file with the private key in keyPath and write <file>.sig
+ */
+export function signConfigFile(configPath: string, keyPath: string): ConfigSignature {
+  const signature = signConfig(loadConfigFile(configPath), keyPath);
+  fs.writeFileSync(signaturePathFor(configPath), JSON.stringify(signature, null, 2) + '\n', 'utf-8');
+  return signature;
+}
+
+/**
+ * Verify <file>.sig against trusted public key files
+ */
+export function verifyConfigFile(configPath: string, trustedKeyPaths: string[]): SignatureCheck {
+  return verifyFileSignature(configPath, loadConfigFile(configPath), loadTrustedKeys(trustedKeyPaths));
+}
+
+function main() {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+    console.log(`
+Usage: sign-config <config-path> --key <private-key.pem>
+       sign-config verify <config-path> --trusted-key <public-key.pem> [--trusted-key ...]
+       sign-config keygen <name>
+
+Arguments:
+  config-path     infra-config.json or overlay file; the signature is written to <config-path>.sig
+  name            Key pair file prefix: writes <name>.key (private) and <name>.pub (public)
+
+Options:
+  --key           Ed25519 private key (PEM) to sign with
+  --trusted-key   Ed25519 public key (PEM) to accept (repeatable)
+  --help, -h      Show this help
+
+Examples:
+  sign-config keygen ./keys/release
+  sign-config ./infra-config.json --key ./keys/release.key
+  sign-config verify ./infra-config.json --trusted-key ./keys/release.pub
+  extract-config ./infra-config.json infra-iam-a --trusted-key /etc/infraconfig/release.pub
+`);
+    process.exit(0);
+  }
+
+  const positional = getPositionalArgs(args, ['--key', '--trusted-key']);
+
+  try {
+    if (positional[0] === 'keygen') {
+      if (!positional[1]) {
+        console.error('ERROR: Usage: sign-config keygen <name>');
+        process.exit(1);
+      }
+      const prefix = path.resolve(positional[1]);
+      if (fs.existsSync(`${prefix}.key`)) {
+        console.error(`ERROR: ${prefix}.key already exists`);
+        process.exit(1);
+      }
+      const pair = generateSigningKeyPair();
+      fs.mkdirSync(path.dirname(prefix), { recursive: true });
+      fs.writeFileSync(`${prefix}.key`, pair.privateKey, { encoding: 'utf-8', mode: 0o600 });
+      fs.writeFileSync(`${prefix}.pub`, pair.publicKey, 'utf-8');
+      console.log(pair.keyId);
+      console.error(`✓ Private key ${prefix}.key (keep it off the hosts), public key ${prefix}.pub`);
+      process.exit(0);
+    }
+
+    if (positional[0] === 'verify') {
+      const trustedKeys = getOptionValues(args, '--trusted-key').map(key => path.resolve(key));
+      if (!positional[1] || trustedKeys.length === 0) {
+        console.error('ERROR: Usage: sign-config verify <config-path> --trusted-key <public-key.pem>');
+        process.exit(1);
+      }
+      const check = verifyConfigFile(path.resolve(positional[1]), trustedKeys);
+      if (check.status !== 'valid') {
+        console.error(`❌ ${check.status}: ${check.message}`);
+        process.exit(1);
+      }
+      console.error(`✓ ${check.message}`);
+      process.exit(0);
+    }
+
+    const keyPath = getOptionValue(args, '--key');
+    if (!keyPath) {
+      console.error('ERROR: --key is required to sign');
+      process.exit(1);
+    }
+    const configPath = path.resolve(positional[0]);
+    const signature = signConfigFile(configPath, path.resolve(keyPath));
+    console.log(signature.keyId);
+    console.error(`✓ Signature written to ${signaturePathFor(configPath)}`);
+    process.exit(0);
+  } catch (error) {
+    console.error(`ERROR: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
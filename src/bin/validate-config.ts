@@ -7,56 +7,137 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { InfraConfig } from '../types';
+import { InfraConfig, InfraConfigOverlay, ValidateOptions, ValidationIssue, ValidationResult, ValidationOutputFormat } from '../types';
+import { mergeConfigs } from '../overlay';
+import { resolveReferences } from '../references';
+import { verifyContentHash } from '../hash';
+import { validateSchema } from '../schema';
+import { DEPRECATED_FIELDS } from '../deprecations';
+import { analyzeSecrets } from '../secret-hygiene';
+import { buildTopology, checkTopology } from '../topology';
+import { detectConflicts } from '../conflicts';
+import { checkEnvMappings } from '../env-mapping';
+import { checkProfile } from '../profiles';
+import { evaluatePolicies, getPolicyPack } from '../policies';
+import { loadTrustedKeys, verifyFileSignature } from '../signature';
+import { schemaRuleId, referenceRuleId, runRules, loadRules, assertRuleIds } from '../rules';
+import { formatValidationResult, validationExitCode, VALIDATION_OUTPUT_FORMATS, VALIDATION_EXIT_CODES } from '../report';
+import { getOptionValue, getOptionValues, getPositionalArgs } from '../cli';
+
+export function validate(configPath: string, options: ValidateOptions = {}): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const files = [configPath, ...(options.overlayPaths || [])];
+  const parsed: (InfraConfig | InfraConfigOverlay)[] = [];
 
-interface ValidationIssue {
-  severity: 'error' | 'warning' | 'info';
-  path: string;
-  message: string;
-}
+  for (const file of files) {
+    // Check file exists
+    if (!fs.existsSync(file)) {
+      issues.push({
+        ruleId: 'file/not-found',
+        severity: 'error',
+        path: file,
+        message: 'Configuration file not found'
+      });
+      continue;
+    }
 
-export function validate(configPath: string): { valid: boolean; issues: ValidationIssue[] } {
-  const issues: ValidationIssue[] = [];
+    // Parse JSON
+    try {
+      const content = fs.readFileSync(file, 'utf-8');
+      parsed.push(JSON.parse(content));
+    } catch (error) {
+      issues.push({
+        ruleId: 'file/invalid-json',
+        severity: 'error',
+        path: file,
+        message: `Invalid JSON: ${(error as Error).message}`
+      });
+    }
+  }
 
-  // Check file exists
-  if (!fs.existsSync(configPath)) {
-    issues.push({
-      severity: 'error',
-      path: configPath,
-      message: 'Configuration file not found'
-    });
+  if (issues.length > 0) {
     return { valid: false, issues };
   }
 
-  // Parse JSON
+  // Verify signatures: with trusted keys, every file must be signed by one of them
+  if (options.trustedKeys) {
+    let trustedKeys;
+    try {
+      trustedKeys = loadTrustedKeys(options.trustedKeys);
+    } catch (error) {
+      issues.push({ ruleId: 'signature/trusted-keys', severity: 'error', path: 'trustedKeys', message: (error as Error).message });
+    }
+    if (trustedKeys && trustedKeys.size === 0) {
+      issues.push({ ruleId: 'signature/trusted-keys', severity: 'error', path: 'trustedKeys', message: 'Signature verification requested but no trusted keys given' });
+    } else if (trustedKeys) {
+      parsed.forEach((content, index) => {
+        const check = verifyFileSignature(files[index], content, trustedKeys);
+        if (check.status !== 'valid') {
+          issues.push({ ruleId: `signature/${check.status}`, severity: 'error', path: files[index], message: check.message });
+        }
+      });
+    }
+  }
+
+  // Verify content hashes
+  parsed.forEach((content, index) => {
+    const check = verifyContentHash(content);
+    if (check.status === 'mismatch') {
+      issues.push({
+        ruleId: 'hash/mismatch',
+        severity: options.skipHashCheck ? 'warning' : 'error',
+        path: 'contentHash',
+        message: `contentHash mismatch in ${files[index]}: declared ${check.expected}, computed ${check.actual}`
+      });
+    } else if (check.status === 'legacy') {
+      issues.push({
+        ruleId: 'hash/legacy',
+        severity: 'warning',
+        path: 'contentHash',
+        message: `contentHash '${check.expected}' in ${files[index]} is not a computed hash. Run hash-config --write`
+      });
+    }
+  });
+
+  // Apply overlays
   let config: InfraConfig;
   try {
-    const content = fs.readFileSync(configPath, 'utf-8');
-    config = JSON.parse(content);
+    config = mergeConfigs(parsed[0] as InfraConfig, parsed.slice(1));
   } catch (error) {
     issues.push({
+      ruleId: 'overlay/invalid',
       severity: 'error',
-      path: configPath,
-      message: `Invalid JSON: ${(error as Error).message}`
+      path: files.slice(1).join(', '),
+      message: `Invalid overlay: ${(error as Error).message}`
     });
     return { valid: false, issues };
   }
 
-  // Validate structure
-  if (!config.schemaVersion) {
+  // Resolve ${ref:...} cross-component references
+  const references = resolveReferences(config);
+  for (const issue of references.issues) {
     issues.push({
-      severity: 'warning',
-      path: 'schemaVersion',
-      message: 'Missing schemaVersion field'
+      ruleId: referenceRuleId(issue.message),
+      severity: 'error',
+      path: issue.path,
+      message: issue.message
     });
   }
+  config = references.config;
 
-  if (!config.systems || !Array.isArray(config.systems)) {
+  // Structural checks from infra-config.schema.json.
+  // Unknown fields are only warnings: they are still extracted as env vars.
+  for (const issue of validateSchema(config)) {
     issues.push({
-      severity: 'error',
-      path: 'systems',
-      message: 'Missing or invalid systems array'
+      ruleId: schemaRuleId(issue.keyword),
+      severity: issue.keyword === 'additionalProperties' ? 'warning' : 'error',
+      path: issue.path,
+      message: issue.message,
+      schemaPath: issue.schemaPath
     });
+  }
+
+  if (!Array.isArray(config.systems)) {
     return { valid: false, issues };
   }
 
@@ -64,20 +145,7 @@ export function validate(configPath: string): { valid: boolean; issues: Validati
   config.systems.forEach((system, sysIndex) => {
     const sysPath = `systems[${sysIndex}]`;
 
-    if (!system.systemId) {
-      issues.push({
-        severity: 'error',
-        path: `${sysPath}.systemId`,
-        message: 'Missing systemId'
-      });
-    }
-
-    if (!system.components || !Array.isArray(system.components)) {
-      issues.push({
-        severity: 'error',
-        path: `${sysPath}.components`,
-        message: 'Missing or invalid components array'
-      });
+    if (!system || !Array.isArray(system.components)) {
       return;
     }
 
@@ -85,20 +153,7 @@ export function validate(configPath: string): { valid: boolean; issues: Validati
     system.components.forEach((component, compIndex) => {
       const compPath = `${sysPath}.components[${compIndex}]`;
 
-      if (!component.componentId) {
-        issues.push({
-          severity: 'error',
-          path: `${compPath}.componentId`,
-          message: 'Missing componentId'
-        });
-      }
-
-      if (!component.deployment) {
-        issues.push({
-          severity: 'error',
-          path: `${compPath}.deployment`,
-          message: 'Missing deployment configuration'
-        });
+      if (!component || !component.deployment || typeof component.deployment !== 'object') {
         return;
       }
 
@@ -106,57 +161,26 @@ export function validate(configPath: string): { valid: boolean; issues: Validati
       const depPath = `${compPath}.deployment`;
 
       // Check for deprecated fields
-      const deprecated: Record<string, string> = {
-        'postgresHost': 'Use mariadbHost instead',
-        'postgresPort': 'Use mariadbPort instead',
-        'postgresUser': 'Use mariadbUser instead',
-        'postgresPassword': 'Use mariadbPassword instead',
-        'postgresDb': 'Use mariadbDatabase instead',
-        'mysqlHost': 'Use mariadbHost instead',
-        'mysqlPort': 'Use mariadbPort instead',
-        'mysqlUser': 'Use mariadbUser instead',
-        'mysqlPassword': 'Use mariadbPassword instead',
-        'mysqlDatabase': 'Use mariadbDatabase instead',
-        'mariadbDb': 'Use mariadbDatabase (full word) instead',
-        'corsOrigins': 'Use corsOrigin (singular) instead',
-        'iamApiUrl': 'Use infraIamBaseUrl instead',
-        'apiUrl': 'Use apiBaseUrl instead'
-      };
-
-      for (const [field, suggestion] of Object.entries(deprecated)) {
+      for (const [field, replacement] of Object.entries(DEPRECATED_FIELDS)) {
         if ((dep as any)[field] !== undefined) {
           issues.push({
+            ruleId: 'field/deprecated',
             severity: 'warning',
             path: `${depPath}.${field}`,
-            message: `Deprecated field. ${suggestion}`
+            message: `Deprecated field. Use ${replacement} instead`
           });
         }
       }
 
-      // Validate required fields for AGENT components
+      // Validate AGENT components
       if (component.componentType === 'AGENT') {
-        if (!dep.port) {
-          issues.push({
-            severity: 'error',
-            path: `${depPath}.port`,
-            message: 'Missing required field: port'
-          });
-        }
-
         // Database Specification Rules
         if (dep.databaseUsageMode) {
-          if (!['LOCAL', 'SHARED', 'NONE'].includes(dep.databaseUsageMode)) {
-            issues.push({
-              severity: 'error',
-              path: `${depPath}.databaseUsageMode`,
-              message: 'Invalid databaseUsageMode. Must be LOCAL, SHARED, or NONE'
-            });
-          }
-
           // Rule 4: Connection Authority (LOCAL)
           if (dep.databaseUsageMode === 'LOCAL') {
             if (!dep.dbLocalUrl) {
               issues.push({
+                ruleId: 'database/local-url-required',
                 severity: 'error',
                 path: `${depPath}.dbLocalUrl`,
                 message: 'dbLocalUrl is required for LOCAL usage mode'
@@ -164,6 +188,7 @@ export function validate(configPath: string): { valid: boolean; issues: Validati
             }
             if (!dep.dbNetworkKey) {
               issues.push({
+                ruleId: 'database/network-key-required',
                 severity: 'error',
                 path: `${depPath}.dbNetworkKey`,
                 message: 'dbNetworkKey is required for LOCAL usage mode'
@@ -175,6 +200,7 @@ export function validate(configPath: string): { valid: boolean; issues: Validati
           if (dep.databaseUsageMode === 'SHARED') {
             if (!dep.dbNetworkKey) {
               issues.push({
+                ruleId: 'database/network-key-required',
                 severity: 'error',
                 path: `${depPath}.dbNetworkKey`,
                 message: 'dbNetworkKey is required for SHARED usage mode'
@@ -182,6 +208,7 @@ export function validate(configPath: string): { valid: boolean; issues: Validati
             }
             if (dep.dbLocalUrl) {
               issues.push({
+                ruleId: 'database/local-url-forbidden',
                 severity: 'error',
                 path: `${depPath}.dbLocalUrl`,
                 message: 'dbLocalUrl must not be defined for SHARED usage mode'
@@ -193,6 +220,7 @@ export function validate(configPath: string): { valid: boolean; issues: Validati
           if (dep.databaseUsageMode === 'NONE') {
             if (dep.dbLocalUrl || dep.dbNetworkKey) {
               issues.push({
+                ruleId: 'database/unused-fields',
                 severity: 'warning',
                 path: `${depPath}`,
                 message: 'Database fields present but usage mode is NONE'
@@ -206,6 +234,7 @@ export function validate(configPath: string): { valid: boolean; issues: Validati
         if (hasMariadbFields) {
           if (!dep.mariadbHost) {
             issues.push({
+              ruleId: 'mariadb/field-required',
               severity: 'error',
               path: `${depPath}.mariadbHost`,
               message: 'mariadbHost required when using MariaDB'
@@ -213,6 +242,7 @@ export function validate(configPath: string): { valid: boolean; issues: Validati
           }
           if (!dep.mariadbPort) {
             issues.push({
+              ruleId: 'mariadb/field-required',
               severity: 'error',
               path: `${depPath}.mariadbPort`,
               message: 'mariadbPort required when using MariaDB'
@@ -220,6 +250,7 @@ export function validate(configPath: string): { valid: boolean; issues: Validati
           }
           if (!dep.mariadbUser) {
             issues.push({
+              ruleId: 'mariadb/field-required',
               severity: 'error',
               path: `${depPath}.mariadbUser`,
               message: 'mariadbUser required when using MariaDB'
@@ -227,6 +258,7 @@ export function validate(configPath: string): { valid: boolean; issues: Validati
           }
           if (!dep.mariadbPassword) {
             issues.push({
+              ruleId: 'mariadb/password-missing',
               severity: 'warning',
               path: `${depPath}.mariadbPassword`,
               message: 'mariadbPassword not set (may be intentional for testing)'
@@ -234,6 +266,7 @@ export function validate(configPath: string): { valid: boolean; issues: Validati
           }
           if (!dep.mariadbDatabase) {
             issues.push({
+              ruleId: 'mariadb/field-required',
               severity: 'error',
               path: `${depPath}.mariadbDatabase`,
               message: 'mariadbDatabase required when using MariaDB'
@@ -244,24 +277,39 @@ export function validate(configPath: string): { valid: boolean; issues: Validati
 
       // Validate WEB components
       if (component.componentType === 'WEB') {
-        if (!dep.port) {
-          issues.push({
-            severity: 'error',
-            path: `${depPath}.port`,
-            message: 'Missing required field: port'
-          });
-        }
         if (!dep.apiBaseUrl) {
           issues.push({
+            ruleId: 'web/api-base-url',
             severity: 'warning',
             path: `${depPath}.apiBaseUrl`,
             message: 'WEB components typically need apiBaseUrl to connect to AGENT'
           });
         }
       }
+
+      // Fields required or forbidden by the systemType profile
+      issues.push(...checkProfile(component, system.systemType, compPath));
     });
   });
 
+  // Secret hygiene: empty, weak, reused and leaked secrets
+  issues.push(...analyzeSecrets(config));
+
+  // Service URLs must point at the endpoint of the intended component
+  issues.push(...checkTopology(buildTopology(config)));
+
+  // Duplicate ids, port and containerName collisions between components
+  issues.push(...detectConflicts(config));
+
+  // Environment variable names: duplicates and invalid mappings
+  issues.push(...checkEnvMappings(config));
+
+  // Unsafe settings for the environment (prod, qual, dev), minus waivers
+  issues.push(...evaluatePolicies(config, { policyPack: options.policyPack }));
+
+  // Team and plugin rules
+  issues.push(...runRules(config, options.rules || []));
+
   const hasErrors = issues.some(i => i.severity === 'error');
   return { valid: !hasErrors, issues };
 }
@@ -271,57 +319,97 @@ function main() {
 
   if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
     console.log(`
-Usage: validate-config <config-path>
+Usage: validate-config <config-path> [options]
 
 Arguments:
   config-path     Path to infra-config.json file
 
+Options:
+  --overlay       Overlay file applied on top of config-path (repeatable)
+  --skip-hash-check  Report contentHash mismatch as a warning
+  --format, -f    Output format: ${VALIDATION_OUTPUT_FORMATS.join(', ')} (default: text)
+  --output, -o    Write the report to a file instead of stdout (json, sarif, junit)
+  --strict        Fail on any warning
+  --max-warnings  Fail when there are more than N warnings
+  --rules         Rules file (.json), module path or npm package with extra rules (repeatable)
+  --policy        Policy pack to apply instead of the one selected by environment (e.g. prod)
+  --trusted-key   Ed25519 public key (PEM); requires a valid <file>.sig for every config file (repeatable)
+
+Exit codes:
+  ${VALIDATION_EXIT_CODES.ok}  Valid
+  ${VALIDATION_EXIT_CODES.policy}  Validation errors, or too many warnings
+  ${VALIDATION_EXIT_CODES.invalidJson}  File missing or not valid JSON
+  ${VALIDATION_EXIT_CODES.schema}  Schema errors
+
 Examples:
   validate-config ./infra-config.json
+  validate-config ./infra-config.json --overlay ./infra-config.prod.json
+  validate-config ./infra-config.json --format sarif -o validation.sarif --max-warnings 0
+  validate-config ./infra-config.json --rules ./infraconfig.rules.json
+  validate-config ./infra-config.qual.json --policy prod
 `);
     process.exit(0);
   }
 
-  const configPath = path.resolve(args[0]);
-  const result = validate(configPath);
-
-  // Group issues by severity
-  const errors = result.issues.filter(i => i.severity === 'error');
-  const warnings = result.issues.filter(i => i.severity === 'warning');
-  const infos = result.issues.filter(i => i.severity === 'info');
+  const configPath = path.resolve(getPositionalArgs(args, ['--overlay', '--format', '-f', '--output', '-o', '--max-warnings', '--rules', '--policy', '--trusted-key'])[0]);
+  const overlayPaths = getOptionValues(args, '--overlay').map(overlay => path.resolve(overlay));
+  const format = (getOptionValue(args, '--format', '-f') || 'text') as ValidationOutputFormat;
+  const output = getOptionValue(args, '--output', '-o');
+  const maxWarningsArg = getOptionValue(args, '--max-warnings');
+  const maxWarnings = maxWarningsArg !== undefined ? Number(maxWarningsArg) : undefined;
 
-  // Print results
-  if (errors.length > 0) {
-    console.error('\n❌ ERRORS:');
-    errors.forEach(issue => {
-      console.error(`  ${issue.path}: ${issue.message}`);
-    });
+  if (!VALIDATION_OUTPUT_FORMATS.includes(format)) {
+    console.error(`ERROR: Unknown format '${format}'. Must be one of: ${VALIDATION_OUTPUT_FORMATS.join(', ')}`);
+    process.exit(VALIDATION_EXIT_CODES.policy);
+  }
+  if (maxWarnings !== undefined && (!Number.isInteger(maxWarnings) || maxWarnings < 0)) {
+    console.error(`ERROR: --max-warnings must be a non-negative integer, got '${maxWarningsArg}'`);
+    process.exit(VALIDATION_EXIT_CODES.policy);
   }
 
-  if (warnings.length > 0) {
-    console.error('\n⚠️  WARNINGS:');
-    warnings.forEach(issue => {
-      console.error(`  ${issue.path}: ${issue.message}`);
-    });
+  const policyPack = getOptionValue(args, '--policy');
+  const trustedKeyArgs = getOptionValues(args, '--trusted-key');
+  const trustedKeys = trustedKeyArgs.length > 0 ? trustedKeyArgs.map(key => path.resolve(key)) : undefined;
+  let rules;
+  try {
+    rules = getOptionValues(args, '--rules').flatMap(source => loadRules(source));
+    assertRuleIds(rules);
+    if (policyPack) getPolicyPack(policyPack);
+  } catch (error) {
+    console.error(`ERROR: ${(error as Error).message}`);
+    process.exit(VALIDATION_EXIT_CODES.policy);
   }
 
-  if (infos.length > 0) {
-    console.error('\nℹ️  INFO:');
-    infos.forEach(issue => {
-      console.error(`  ${issue.path}: ${issue.message}`);
-    });
+  const result = validate(configPath, { overlayPaths, skipHashCheck: args.includes('--skip-hash-check'), rules, policyPack, trustedKeys });
+  const exitCode = validationExitCode(result, { strict: args.includes('--strict'), maxWarnings });
+  const report = formatValidationResult(result, format, { configPath, overlayPaths, rules });
+
+  if (format !== 'text') {
+    if (output) {
+      fs.writeFileSync(path.resolve(output), report, 'utf-8');
+      console.error(`✓ ${format} report written to ${path.resolve(output)}`);
+    } else {
+      process.stdout.write(report);
+    }
+    process.exit(exitCode);
   }
 
+  process.stderr.write(report);
+  const errors = result.issues.filter(i => i.severity === 'error');
+  const warnings = result.issues.filter(i => i.severity === 'warning');
+
   if (result.valid) {
     console.error('\n✅ Configuration is valid');
     if (warnings.length > 0) {
       console.error(`   ${warnings.length} warning(s) - consider fixing for best practices`);
     }
-    process.exit(0);
+    if (exitCode !== VALIDATION_EXIT_CODES.ok) {
+      console.error(`\n❌ Failing on warnings (${args.includes('--strict') ? '--strict' : `--max-warnings ${maxWarnings}`})`);
+    }
   } else {
     console.error(`\n❌ Configuration has ${errors.length} error(s)`);
-    process.exit(1);
   }
+  process.exit(exitCode);
 }
 
 if (require.main === module) {
@@ -0,0 +1,40 @@
+/**
+ * Shared command line argument helpers for the bin/ tools
+ */
+
+/**
+ * Get every value given for an option, e.g. --overlay a.json --overlay b.json
+ */
+export function getOptionValues(args: string[], ...names: string[]): string[] {
+  const values: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (names.includes(args[i]) && args[i + 1] !== undefined) {
+      values.push(args[i + 1]);
+      i++;
+    }
+  }
+  return values;
+}
+
+/**
+ * Get the last value given for an option
+ */
+export function getOptionValue(args: string[], ...names: string[]): string | undefined {
+  const values = getOptionValues(args, ...names);
+  return values.length > 0 ? values[values.length - 1] : undefined;
+}
+
+/**
+ * Get positional arguments, skipping flags and the values of options that take one
+ */
+export function getPositionalArgs(args: string[], optionsWithValues: string[]): string[] {
+  const positional: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (optionsWithValues.includes(args[i])) {
+      i++;
+    } else if (!args[i].startsWith('-')) {
+      positional.push(args[i]);
+    }
+  }
+  return positional;
+}
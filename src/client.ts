@@ -0,0 +1,225 @@
+/**
+ * Runtime Configuration Client
+ *
+ * Gives a running service typed access to its own DeploymentConfig without
+ * going through a generated .env file, and reloads it while the service runs:
+ *
+ *   const client = await loadInfraConfig({ configPath: './infra-config.json', componentId: 'infra-iam-a' });
+ *   client.config.mariadbMaxConnections;
+ *   client.on('change', ({ changedKeys }) => { ... });
+ *
+ * The source is either a local file (plus overlays) or an HTTP endpoint
+ * returning infra-config.json, polled every configPollingInterval ms.
+ */
+
+import { EventEmitter } from 'events';
+import * as path from 'path';
+import { InfraConfig, InfraConfigOverlay, DeploymentConfig, ClientOptions, ConfigChangeEvent } from './types';
+import { loadConfigFile, mergeConfigs } from './overlay';
+import { resolveReferences } from './references';
+import { resolveSecretReferences } from './secrets';
+import { decryptDeployment, loadEncryptionKey } from './encryption';
+import { verifyContentHash, canonicalJson } from './hash';
+import { discoverComponent } from './discovery';
+
+function deepFreeze<T>(value: T): Readonly<T> {
+  if (value && typeof value === 'object') {
+    for (const nested of Object.values(value)) {
+      deepFreeze(nested);
+    }
+    Object.freeze(value);
+  }
+  return value;
+}
+
+/**
+ * Compute which top-level DeploymentConfig keys differ between two versions
+ */
+export function diffDeployments(
+  previous: DeploymentConfig,
+  current: DeploymentConfig
+): Pick<ConfigChangeEvent, 'changedKeys' | 'added' | 'removed' | 'modified'> {
+  const added: string[] = [];
+  const removed: string[] = [];
+  const modified: string[] = [];
+  const keys = new Set([...Object.keys(previous), ...Object.keys(current)] as (keyof DeploymentConfig)[]);
+
+  for (const key of keys) {
+    const before = previous[key];
+    const after = current[key];
+    if (before === undefined) {
+      added.push(key);
+    } else if (after === undefined) {
+      removed.push(key);
+    } else if (canonicalJson(before) !== canonicalJson(after)) {
+      modified.push(key);
+    }
+  }
+
+  const changedKeys = [...added, ...removed, ...modified].sort() as (keyof DeploymentConfig)[];
+  return { changedKeys, added, removed, modified };
+}
+
+/**
+ * Live view of one component's configuration.
+ *
+ * Events:
+ *   'change' (event: ConfigChangeEvent) - a reload produced a different DeploymentConfig
+ *   'error'  (error: Error)             - a reload failed; the previous config stays active
+ */
+export class InfraConfigClient extends EventEmitter {
+  private current: Readonly<DeploymentConfig> = {} as DeploymentConfig;
+  private timer?: NodeJS.Timeout;
+  private etag?: string;
+  private closed = false;
+
+  componentId = '';
+  systemId = '';
+  systemType = '';
+
+  constructor(private readonly options: ClientOptions) {
+    super();
+    if (!options.configPath && !options.configUrl) {
+      throw new Error('loadInfraConfig requires configPath or configUrl');
+    }
+  }
+
+  /**
+   * The component's resolved, frozen DeploymentConfig
+   */
+  get config(): Readonly<DeploymentConfig> {
+    return this.current;
+  }
+
+  /**
+   * Reload from the source. Resolves to true when the configuration changed.
+   */
+  async reload(): Promise<boolean> {
+    const config = await this.fetchConfig();
+    if (!config) {
+      return false;
+    }
+
+    const { config: resolved, issues } = resolveReferences(config);
+    const { component, systemId, systemType } = discoverComponent(resolved, {
+      componentId: this.options.componentId || this.componentId || undefined,
+      systemId: this.options.systemId || this.systemId || undefined
+    });
+
+    const referenceIssues = issues.filter(issue => issue.systemId === systemId && issue.componentId === component.componentId);
+    if (referenceIssues.length > 0) {
+      throw new Error(`Unresolved references in ${component.componentId}: ${referenceIssues[0].message}`);
+    }
+
+    const baseDir = this.options.configPath ? path.dirname(path.resolve(this.options.configPath)) : process.cwd();
+    const decrypted = decryptDeployment(component.deployment, loadEncryptionKey(this.options.encryptionKeyPath));
+    const deployment = deepFreeze(resolveSecretReferences(decrypted, { baseDir }, this.options.secretResolvers));
+
+    const previous = this.current;
+    const initial = !this.componentId;
+    this.componentId = component.componentId;
+    this.systemId = systemId;
+    this.systemType = systemType;
+    this.current = deployment;
+
+    if (initial) {
+      return false;
+    }
+    const diff = diffDeployments(previous, deployment);
+    if (diff.changedKeys.length === 0) {
+      return false;
+    }
+    this.emit('change', { ...diff, previous, current: deployment } as ConfigChangeEvent);
+    return true;
+  }
+
+  /**
+   * Start polling. The interval comes from options.pollIntervalMs, else from
+   * the component's configPollingInterval. Does nothing if neither is set.
+   */
+  startPolling(): void {
+    const interval = this.options.pollIntervalMs ?? this.current.configPollingInterval;
+    if (!interval || this.timer || this.closed) {
+      return;
+    }
+
+    const schedule = () => {
+      this.timer = setTimeout(async () => {
+        try {
+          await this.reload();
+        } catch (error) {
+          if (this.listenerCount('error') > 0) {
+            this.emit('error', error);
+          }
+        }
+        if (!this.closed) {
+          schedule();
+        }
+      }, interval);
+      this.timer.unref();
+    };
+    schedule();
+  }
+
+  /**
+   * Stop polling
+   */
+  close(): void {
+    this.closed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Read the configuration from file or HTTP. Returns undefined when the
+   * HTTP endpoint reports the config as unchanged (304).
+   */
+  private async fetchConfig(): Promise<InfraConfig | undefined> {
+    const overlays = (this.options.overlayPaths || []).map(overlayPath =>
+      loadConfigFile<InfraConfigOverlay>(overlayPath, `overlay ${overlayPath}`)
+    );
+    let base: InfraConfig;
+
+    if (this.options.configPath) {
+      base = loadConfigFile(this.options.configPath);
+    } else {
+      const headers: Record<string, string> = { accept: 'application/json', ...this.options.headers };
+      if (this.etag) {
+        headers['if-none-match'] = this.etag;
+      }
+      const response = await fetch(this.options.configUrl!, { headers });
+      if (response.status === 304) {
+        return undefined;
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${this.options.configUrl}: HTTP ${response.status}`);
+      }
+      this.etag = response.headers.get('etag') || undefined;
+      try {
+        base = await response.json() as InfraConfig;
+      } catch (error) {
+        throw new Error(`Failed to parse infra-config.json from ${this.options.configUrl}: ${(error as Error).message}`);
+      }
+    }
+
+    const check = verifyContentHash(base);
+    if (check.status === 'mismatch' && !this.options.skipHashCheck) {
+      throw new Error(`contentHash mismatch: declared ${check.expected}, computed ${check.actual}`);
+    }
+    return mergeConfigs(base, overlays);
+  }
+}
+
+/**
+ * Load a component's configuration and start polling for changes
+ */
+export async function loadInfraConfig(options: ClientOptions): Promise<InfraConfigClient> {
+  const client = new InfraConfigClient(options);
+  await client.reload();
+  if (options.watch !== false) {
+    client.startPolling();
+  }
+  return client;
+}
@@ -0,0 +1,265 @@
+/**
+ * docker-compose Generation
+ *
+ * Builds a docker-compose.yml for a system or a whole configuration, so the
+ * deploy scripts no longer repeat what infra-config.json already knows:
+ *
+ * - one service per enabled component, named after its componentId, with
+ *   containerName, network, port and metricsPort taken from the deployment
+ * - env_file pointing at the file extract-config --all writes for it
+ * - a healthcheck when healthCheckInterval is set
+ * - depends_on from service URLs that resolve to another service (by
+ *   endpoint or by host name), and from mariadbHost / natsUrl / redisUrl
+ *
+ * A MariaDB, NATS or Redis host that is a plain service name ("mariadb",
+ * nats://nats:4222) and no component gets a service of its own, shared by
+ * every component using it.
+ */
+
+import * as path from 'path';
+import { ComposeFile, ComposeOptions, ComposeResult, ComposeService, InfraConfig } from './types';
+import { buildTopology } from './topology';
+
+type BackingKind = 'mariadb' | 'nats' | 'redis';
+
+/**
+ * Services started for shared dependencies that are not components
+ */
+const BACKING_SERVICES: Record<BackingKind, Omit<ComposeService, 'restart'> & { volume?: string }> = {
+  mariadb: {
+    image: 'mariadb:11',
+    environment: { MARIADB_ROOT_PASSWORD: '${MARIADB_ROOT_PASSWORD}' },  // Interpolated by compose from the shell or .env
+    volume: '/var/lib/mysql',
+    healthcheck: { test: ['CMD', 'healthcheck.sh', '--connect', '--innodb_initialized'], interval: '10s', timeout: '5s', retries: 5 }
+  },
+  nats: {
+    image: 'nats:2-alpine',
+    command: ['-js', '-m', '8222'],
+    healthcheck: { test: ['CMD', 'wget', '-q', '--spider', 'http://localhost:8222/healthz'], interval: '10s', timeout: '5s', retries: 5 }
+  },
+  redis: {
+    image: 'redis:7-alpine',
+    volume: '/data',
+    healthcheck: { test: ['CMD', 'redis-cli', 'ping'], interval: '10s', timeout: '5s', retries: 5 }
+  }
+};
+
+const BACKING_URL_FIELDS: Record<string, BackingKind> = { natsUrl: 'nats', redisUrl: 'redis' };
+const HOST_GATEWAY = 'host.docker.internal';
+const SERVICE_NAME = /^[a-z0-9][a-z0-9_.-]*$/;
+
+function hostnameOf(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.toLowerCase() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * A host name that can only mean a service on the compose network
+ */
+function isServiceName(host: string): boolean {
+  return SERVICE_NAME.test(host) && !host.includes('.') && host !== 'localhost';
+}
+
+/**
+ * Milliseconds as a compose duration
+ */
+function duration(ms: number): string {
+  return ms % 1000 === 0 ? `${ms / 1000}s` : `${ms}ms`;
+}
+
+/**
+ * Generate the compose file. Expects a configuration with references resolved.
+ */
+export function generateCompose(config: InfraConfig, options: ComposeOptions = {}): ComposeResult {
+  const envDir = options.envDir ?? 'env';
+  const imagePattern = options.imagePattern || '{componentId}:latest';
+  const healthCheckPath = options.healthCheckPath || '/health';
+  const warnings: string[] = [];
+
+  const systems = (config.systems || []).filter(system => !options.systemId || system.systemId === options.systemId);
+  if (options.systemId && systems.length === 0) {
+    throw new Error(`System '${options.systemId}' not found`);
+  }
+
+  const compose: ComposeFile = { services: {} };
+  const serviceByNodeId = new Map<string, string>();
+  const serviceByHost = new Map<string, string>();
+  const publishedPorts = new Map<string, string>();
+
+  for (const system of systems) {
+    for (const component of system.components || []) {
+      if (component.enabled === false && !options.includeDisabled) {
+        continue;
+      }
+      const name = component.componentId;
+      if (compose.services[name]) {
+        throw new Error(`Component ID '${name}' is used more than once`);
+      }
+      const deployment = component.deployment || {};
+
+      const image = imagePattern.replace(/\{(\w+)\}/g, (placeholder: string, key: string) => {
+        const values: Record<string, string | undefined> = {
+          systemId: system.systemId,
+          systemType: system.systemType,
+          componentId: component.componentId,
+          componentType: component.componentType,
+          environment: config.environment
+        };
+        if (values[key] === undefined) {
+          throw new Error(`Unknown placeholder ${placeholder} in image pattern`);
+        }
+        return values[key] as string;
+      });
+
+      const service: ComposeService = {
+        image,
+        container_name: deployment.containerName,
+        env_file: [path.posix.join(envDir, system.systemId, `${component.componentId}.env`)],
+        restart: 'unless-stopped'
+      };
+
+      const ports = [deployment.port, deployment.metricsPort].filter((port): port is number => typeof port === 'number');
+      if (ports.length > 0) {
+        service.ports = ports.map(port => `${port}:${port}`);
+        for (const port of ports) {
+          const existing = publishedPorts.get(String(port));
+          if (existing && existing !== name) {
+            warnings.push(`Host port ${port} is published by both ${existing} and ${name}`);
+          } else {
+            publishedPorts.set(String(port), name);
+          }
+        }
+      }
+
+      if (deployment.network) {
+        service.networks = [deployment.network];
+        compose.networks = { ...compose.networks, [deployment.network]: { name: deployment.network } };
+      }
+
+      if (typeof deployment.healthCheckInterval === 'number' && deployment.healthCheckInterval > 0) {
+        if (typeof deployment.port === 'number') {
+          service.healthcheck = {
+            test: ['CMD-SHELL', `wget -q --spider http://localhost:${deployment.port}${healthCheckPath} || exit 1`],
+            interval: duration(deployment.healthCheckInterval),
+            timeout: '5s',
+            retries: 3
+          };
+        } else {
+          warnings.push(`${name}: healthCheckInterval is set but there is no port to check`);
+        }
+      }
+
+      compose.services[name] = service;
+      serviceByNodeId.set(`${system.systemId}/${component.componentId}`, name);
+      serviceByHost.set(name.toLowerCase(), name);
+      if (deployment.containerName) {
+        serviceByHost.set(deployment.containerName.toLowerCase(), name);
+      }
+    }
+  }
+
+  const backing = new Map<string, BackingKind>();
+  const dependencies = new Map<string, Set<string>>();
+  const addDependency = (from: string, to: string) => {
+    if (from !== to) {
+      dependencies.set(from, (dependencies.get(from) || new Set()).add(to));
+    }
+  };
+
+  // Shared dependencies: a component with that host name, or a backing service
+  const useHost = (from: string, host: string | undefined, kind?: BackingKind) => {
+    if (!host) {
+      return;
+    }
+    if (host === HOST_GATEWAY) {
+      compose.services[from].extra_hosts = [`${HOST_GATEWAY}:host-gateway`];
+      return;
+    }
+    const target = serviceByHost.get(host);
+    if (target) {
+      addDependency(from, target);
+    } else if (kind && isServiceName(host)) {
+      if (backing.has(host) && backing.get(host) !== kind) {
+        throw new Error(`Host '${host}' is used for both ${backing.get(host)} and ${kind}`);
+      }
+      backing.set(host, kind);
+      addDependency(from, host);
+    }
+  };
+
+  for (const system of systems) {
+    for (const component of system.components || []) {
+      const from = serviceByNodeId.get(`${system.systemId}/${component.componentId}`);
+      if (from && typeof component.deployment?.mariadbHost === 'string') {
+        useHost(from, component.deployment.mariadbHost.toLowerCase(), 'mariadb');
+      }
+    }
+  }
+
+  for (const edge of buildTopology(config).edges) {
+    const from = serviceByNodeId.get(edge.from);
+    if (!from) {
+      continue;
+    }
+    const target = edge.to ? serviceByNodeId.get(edge.to) : undefined;
+    if (target) {
+      addDependency(from, target);
+    } else {
+      useHost(from, hostnameOf(edge.url), BACKING_URL_FIELDS[edge.field]);
+    }
+  }
+
+  for (const [host, kind] of backing) {
+    if (compose.services[host]) {
+      continue;
+    }
+    const { volume, ...template } = BACKING_SERVICES[kind];
+    const service: ComposeService = { ...template, restart: 'unless-stopped' };
+    if (volume) {
+      service.volumes = [`${host}-data:${volume}`];
+      compose.volumes = { ...compose.volumes, [`${host}-data`]: {} };
+    }
+    // On the networks of the components using it, so the host name resolves
+    const networks = new Set<string>();
+    for (const [from, targets] of dependencies) {
+      if (targets.has(host)) {
+        (compose.services[from].networks || ['default']).forEach(network => networks.add(network));
+      }
+    }
+    if ([...networks].some(network => network !== 'default')) {
+      service.networks = [...networks];
+    }
+    compose.services[host] = service;
+  }
+
+  // compose refuses circular depends_on; an edge closing a cycle is left out
+  const accepted = new Map<string, Set<string>>();
+  const reaches = (from: string, to: string, seen: Set<string>): boolean => {
+    if (from === to) {
+      return true;
+    }
+    seen.add(from);
+    return [...(accepted.get(from) || [])].some(next => !seen.has(next) && reaches(next, to, seen));
+  };
+  for (const from of Object.keys(compose.services)) {
+    for (const target of dependencies.get(from) || []) {
+      if (reaches(target, from, new Set())) {
+        warnings.push(`depends_on ${from} → ${target} left out; it would create a dependency cycle`);
+      } else {
+        accepted.set(from, (accepted.get(from) || new Set()).add(target));
+      }
+    }
+  }
+
+  for (const [from, targets] of accepted) {
+    compose.services[from].depends_on = Object.fromEntries([...targets].sort().map(target => [
+      target,
+      { condition: compose.services[target].healthcheck ? 'service_healthy' as const : 'service_started' as const }
+    ]));
+  }
+
+  return { compose, warnings };
+}
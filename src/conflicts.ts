@@ -0,0 +1,152 @@
+/**
+ * Cross-Component Conflict Detection
+ *
+ * Checks that only make sense across the whole configuration:
+ * - duplicate systemIds and componentIds
+ * - two enabled components binding the same port on the same host
+ * - duplicate containerNames among enabled components
+ * - a component's endpoint port disagreeing with its deployment.port
+ *
+ * The host of a component is the hostname of its endpoint, or deployment.host
+ * when that names a specific address. Components with neither are skipped
+ * by the port check.
+ */
+
+import { InfraConfig, DeploymentConfig, ValidationIssue } from './types';
+
+/**
+ * Deployment fields holding ports the component listens on
+ */
+export const LISTEN_PORT_FIELDS: (keyof DeploymentConfig)[] = ['port', 'metricsPort', 'natsClientPort', 'natsHttpPort'];
+
+const DEFAULT_PORTS: Record<string, number> = { 'http:': 80, 'https:': 443 };
+const WILDCARD_HOSTS = ['0.0.0.0', '::', '[::]', ''];
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '::1', '[::1]'];
+
+interface Located {
+  id: string;
+  path: string;
+}
+
+function parseEndpoint(endpoint: string | undefined): { host: string; port?: number } | undefined {
+  if (!endpoint) {
+    return undefined;
+  }
+  try {
+    const url = new URL(endpoint);
+    const port = url.port ? Number(url.port) : DEFAULT_PORTS[url.protocol];
+    return { host: url.hostname, port };
+  } catch {
+    return undefined;
+  }
+}
+
+function normalizeHost(host: string): string {
+  const lower = host.toLowerCase();
+  return LOOPBACK_HOSTS.includes(lower) ? 'localhost' : lower;
+}
+
+/**
+ * Detect conflicts between components
+ */
+export function detectConflicts(config: InfraConfig): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const systemIds = new Map<string, string>();
+  const componentIds = new Map<string, string>();
+  const containerNames = new Map<string, Located>();
+  const boundPorts = new Map<string, Located & { field: string }>();
+
+  (config.systems || []).forEach((system, sysIndex) => {
+    const sysPath = `systems[${sysIndex}]`;
+    if (!system) {
+      return;
+    }
+
+    if (system.systemId) {
+      const first = systemIds.get(system.systemId);
+      if (first) {
+        issues.push({ ruleId: 'conflict/duplicate-system-id', severity: 'error', path: `${sysPath}.systemId`, message: `Duplicate systemId '${system.systemId}' (also ${first})` });
+      } else {
+        systemIds.set(system.systemId, sysPath);
+      }
+    }
+
+    (system.components || []).forEach((component, compIndex) => {
+      const compPath = `${sysPath}.components[${compIndex}]`;
+      if (!component) {
+        return;
+      }
+      const id = `${system.systemId}/${component.componentId}`;
+
+      if (component.componentId) {
+        const first = componentIds.get(component.componentId);
+        if (first) {
+          issues.push({ ruleId: 'conflict/duplicate-component-id', severity: 'error', path: `${compPath}.componentId`, message: `Duplicate componentId '${component.componentId}' (also ${first})` });
+        } else {
+          componentIds.set(component.componentId, compPath);
+        }
+      }
+
+      const dep = component.deployment;
+      if (!dep || typeof dep !== 'object') {
+        return;
+      }
+      const endpoint = parseEndpoint(component.endpoint);
+
+      if (endpoint?.port !== undefined && typeof dep.port === 'number' && endpoint.port !== dep.port) {
+        issues.push({
+          ruleId: 'conflict/endpoint-port',
+          severity: 'warning',
+          path: `${compPath}.endpoint`,
+          message: `Endpoint port ${endpoint.port} does not match deployment.port ${dep.port}`
+        });
+      }
+
+      // Disabled components do not run, so they cannot collide
+      if (component.enabled === false) {
+        return;
+      }
+
+      if (typeof dep.containerName === 'string' && dep.containerName) {
+        const first = containerNames.get(dep.containerName);
+        if (first) {
+          issues.push({
+            ruleId: 'conflict/container-name',
+            severity: 'error',
+            path: `${compPath}.deployment.containerName`,
+            message: `containerName '${dep.containerName}' is also used by ${first.id}`
+          });
+        } else {
+          containerNames.set(dep.containerName, { id, path: compPath });
+        }
+      }
+
+      const bindHost = typeof dep.host === 'string' && !WILDCARD_HOSTS.includes(dep.host) ? dep.host : undefined;
+      const host = endpoint?.host || bindHost;
+      if (!host) {
+        return;
+      }
+      for (const field of LISTEN_PORT_FIELDS) {
+        const port = dep[field];
+        if (typeof port !== 'number') {
+          continue;
+        }
+        const key = `${normalizeHost(host)}:${port}`;
+        const first = boundPorts.get(key);
+        if (first) {
+          const owner = first.id === id ? `its own ${first.field}` : `${first.id} (${first.field})`;
+          issues.push({
+            ruleId: 'conflict/port',
+            severity: 'error',
+            path: `${compPath}.deployment.${field}`,
+            message: `Port ${port} on ${host} is already used by ${owner}`
+          });
+        } else {
+          boundPorts.set(key, { id, path: compPath, field });
+        }
+      }
+    });
+  });
+
+  return issues;
+}
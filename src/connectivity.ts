@@ -0,0 +1,189 @@
+/**
+ * Connectivity Checks
+ *
+ * Probes what a component's deployment points at, so an unreachable database
+ * or service shows up before the container crash-loops:
+ *
+ *   mariadbHost:mariadbPort                TCP connect
+ *   natsUrl, redisUrl, other non-HTTP URLs TCP connect
+ *   http(s) service URLs, jaegerEndpoint   HTTP GET; any status below 500 is reachable
+ *
+ * Every probe has a timeout and they run in parallel.
+ */
+
+import * as net from 'net';
+import { ConnectivityFormat, ConnectivityReport, ConnectivityResult, ConnectivityTarget, DeploymentConfig } from './types';
+import { urlFields } from './topology';
+
+export const CONNECTIVITY_FORMATS: ConnectivityFormat[] = ['text', 'json'];
+
+const DEFAULT_TIMEOUT_MS = 3000;
+
+const DEFAULT_PORTS: Record<string, number> = {
+  'http:': 80,
+  'https:': 443,
+  'mariadb:': 3306,
+  'mysql:': 3306,
+  'nats:': 4222,
+  'tls:': 4222,
+  'redis:': 6379,
+  'rediss:': 6379
+};
+
+/**
+ * What to probe for one configured value; a string is why it cannot be probed
+ */
+function targetFor(dependency: string, value: string): ConnectivityTarget | string {
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(value)) {
+    // host:port, as used for Jaeger agents
+    const match = value.match(/^([^\/:]+):(\d+)$/);
+    return match ? { dependency, protocol: 'tcp', host: match[1], port: Number(match[2]) } : 'Not a valid URL';
+  }
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'Not a valid URL';
+  }
+  const port = url.port ? Number(url.port) : DEFAULT_PORTS[url.protocol];
+  if (!port) {
+    return `No port in URL and no default for ${url.protocol}`;
+  }
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  if (url.protocol === 'http:' || url.protocol === 'https:') {
+    url.username = '';
+    url.password = '';
+    return { dependency, protocol: 'http', host, port, url: url.toString() };
+  }
+  return { dependency, protocol: 'tcp', host, port };
+}
+
+/**
+ * The dependencies of a deployment, in probe order. Values that cannot be
+ * probed are returned as failed results.
+ */
+export function connectivityTargets(deployment: DeploymentConfig): (ConnectivityTarget | ConnectivityResult)[] {
+  const targets: (ConnectivityTarget | ConnectivityResult)[] = [];
+  const add = (dependency: string, value: string) => {
+    const target = targetFor(dependency, value.trim());
+    targets.push(typeof target === 'string'
+      ? { dependency, protocol: 'tcp', host: '', port: 0, status: 'failed', error: target }
+      : target);
+  };
+
+  if (typeof deployment.mariadbHost === 'string' && deployment.mariadbHost.trim() !== '') {
+    targets.push({ dependency: 'mariadbHost', protocol: 'tcp', host: deployment.mariadbHost.trim(), port: deployment.mariadbPort || 3306 });
+  }
+  for (const [field, value] of urlFields(deployment)) {
+    if (value.trim() === '') {
+      continue;
+    }
+    // NATS clients accept a comma-separated server list
+    const servers = field === 'natsUrl' ? value.split(',').filter(server => server.trim() !== '') : [value];
+    servers.forEach((server, index) => add(servers.length > 1 ? `${field}[${index}]` : field, server));
+  }
+  if (typeof deployment.jaegerEndpoint === 'string' && deployment.jaegerEndpoint.trim() !== '') {
+    add('jaegerEndpoint', deployment.jaegerEndpoint);
+  }
+  return targets;
+}
+
+/**
+ * Open a TCP connection; resolves with the time it took in ms
+ */
+export function probeTcp(host: string, port: number, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const started = Date.now();
+    const socket = net.connect({ host, port });
+    const timer = setTimeout(() => finish(new Error(`Timed out after ${timeoutMs} ms`)), timeoutMs);
+    const finish = (error?: Error) => {
+      clearTimeout(timer);
+      socket.destroy();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(Date.now() - started);
+      }
+    };
+    socket.once('connect', () => finish());
+    socket.once('error', error => finish(error));
+  });
+}
+
+/**
+ * Send a GET request without following redirects; resolves with the time to
+ * the response headers in ms and the status
+ */
+export async function probeHttp(url: string, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<{ latencyMs: number; status: number }> {
+  const started = Date.now();
+  try {
+    const response = await fetch(url, { redirect: 'manual', signal: AbortSignal.timeout(timeoutMs) });
+    const latencyMs = Date.now() - started;
+    await response.body?.cancel();
+    return { latencyMs, status: response.status };
+  } catch (error) {
+    if ((error as Error).name === 'TimeoutError') {
+      throw new Error(`Timed out after ${timeoutMs} ms`);
+    }
+    // fetch reports network errors as "fetch failed" with the reason in cause
+    const cause = (error as { cause?: { code?: string; message?: string } }).cause;
+    throw new Error(cause?.code || cause?.message || (error as Error).message);
+  }
+}
+
+async function probe(target: ConnectivityTarget, timeoutMs: number): Promise<ConnectivityResult> {
+  try {
+    if (target.protocol === 'tcp') {
+      return { ...target, status: 'ok', latencyMs: await probeTcp(target.host, target.port, timeoutMs) };
+    }
+    const { latencyMs, status } = await probeHttp(target.url!, timeoutMs);
+    return status >= 500
+      ? { ...target, status: 'failed', latencyMs, httpStatus: status, error: `HTTP ${status}` }
+      : { ...target, status: 'ok', latencyMs, httpStatus: status };
+  } catch (error) {
+    return { ...target, status: 'failed', error: (error as Error).message };
+  }
+}
+
+/**
+ * Probe every dependency of a deployment
+ */
+export function probeDeployment(deployment: DeploymentConfig, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<ConnectivityResult[]> {
+  return Promise.all(connectivityTargets(deployment).map(target =>
+    'status' in target ? Promise.resolve(target) : probe(target, timeoutMs)
+  ));
+}
+
+function formatText(results: ConnectivityResult[], title: string): string {
+  if (results.length === 0) {
+    return `${title}\n\nNo dependencies to check\n`;
+  }
+  const addresses = results.map(result => result.url || (result.host ? `${result.host}:${result.port}` : '-'));
+  const width = Math.max(...results.map(result => result.dependency.length));
+  const addressWidth = Math.max(...addresses.map(address => address.length));
+  const lines = results.map((result, index) => {
+    const outcome = result.status === 'ok'
+      ? `${result.latencyMs} ms${result.httpStatus ? `, HTTP ${result.httpStatus}` : ''}`
+      : result.error;
+    return `  ${result.status === 'ok' ? '✓' : '✗'} ${result.dependency.padEnd(width)}  ${result.protocol.padEnd(4)}  ${addresses[index].padEnd(addressWidth)}  ${outcome}`;
+  });
+  const failed = results.filter(result => result.status === 'failed').length;
+  const summary = failed === 0
+    ? `All ${results.length} dependencies reachable`
+    : `${failed} of ${results.length} dependencies unreachable`;
+  return [title, '', ...lines, '', summary].join('\n') + '\n';
+}
+
+/**
+ * Render probe results for a component
+ */
+export function formatConnectivityReport(report: ConnectivityReport, format: ConnectivityFormat = 'text'): string {
+  switch (format) {
+    case 'text':
+      return formatText(report.results, `Connectivity of ${report.componentId} (${report.systemId})`);
+    case 'json':
+      return JSON.stringify(report, null, 2) + '\n';
+    default:
+      throw new Error(`Unknown format '${format}'. Must be one of: ${CONNECTIVITY_FORMATS.join(', ')}`);
+  }
+}
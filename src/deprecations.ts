@@ -0,0 +1,21 @@
+/**
+ * Deprecated DeploymentConfig field names and their standard replacements
+ *
+ * Shared by the validator, the extractor's warnings and migrate-config.
+ */
+export const DEPRECATED_FIELDS: Record<string, string> = {
+  postgresHost: 'mariadbHost',
+  postgresPort: 'mariadbPort',
+  postgresUser: 'mariadbUser',
+  postgresPassword: 'mariadbPassword',
+  postgresDb: 'mariadbDatabase',
+  mysqlHost: 'mariadbHost',
+  mysqlPort: 'mariadbPort',
+  mysqlUser: 'mariadbUser',
+  mysqlPassword: 'mariadbPassword',
+  mysqlDatabase: 'mariadbDatabase',
+  mariadbDb: 'mariadbDatabase',
+  corsOrigins: 'corsOrigin',
+  iamApiUrl: 'infraIamBaseUrl',
+  apiUrl: 'apiBaseUrl'
+};
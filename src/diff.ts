@@ -0,0 +1,213 @@
+/**
+ * Semantic Config Diff
+ *
+ * Compares two infra-config versions by system and component id instead of
+ * by JSON text: which systems and components were added or removed, which
+ * fields changed, and which environment variables the change produces.
+ *
+ * ${ref:...} references are resolved on both sides first, so a rewritten
+ * reference that yields the same value is not a change. Secret references
+ * (${file:...}, ${vault:...}) are compared as written and never resolved.
+ * Secret values are masked unless showSecrets is set.
+ */
+
+import { InfraConfig, System, Component, DeploymentConfig, MappedEnvVars, DiffOptions, FieldChange, ComponentDiff, ConfigDiff } from './types';
+import { resolveReferences } from './references';
+import { isSecretField } from './secrets';
+import { canonicalJson } from './hash';
+import { mapEnvVars, resolveEnvMapping } from './env-mapping';
+
+const MASK = '********';
+
+type ComponentEnv = MappedEnvVars & { issues: string[] };
+
+// Not part of the configuration content (see canonicalConfigContent)
+const IGNORED_TOP_LEVEL = ['systems', 'contentHash', 'generatedBy'];
+
+function compareFields<T extends object>(
+  before: T,
+  after: T,
+  isSecret: (key: string) => boolean,
+  options: DiffOptions,
+  prefix = ''
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const oldValues = new Map<string, unknown>(Object.entries(before));
+  const newValues = new Map<string, unknown>(Object.entries(after));
+  const keys = [...oldValues.keys(), ...[...newValues.keys()].filter(key => !oldValues.has(key))];
+
+  for (const key of keys) {
+    const oldValue = oldValues.get(key);
+    const newValue = newValues.get(key);
+    if (oldValue !== undefined && newValue !== undefined && canonicalJson(oldValue) === canonicalJson(newValue)) {
+      continue;
+    }
+
+    const secret = isSecret(key);
+    const show = (value: unknown) => (secret && !options.showSecrets ? MASK : value);
+    const change: FieldChange = {
+      field: `${prefix}${key}`,
+      change: oldValue === undefined ? 'added' : newValue === undefined ? 'removed' : 'modified',
+      secret
+    };
+    if (oldValue !== undefined) {
+      change.before = show(oldValue);
+    }
+    if (newValue !== undefined) {
+      change.after = show(newValue);
+    }
+    changes.push(change);
+  }
+
+  return changes;
+}
+
+/**
+ * Environment variables of a component through its mapping, or none when it
+ * does not exist. Collisions are collected instead of thrown.
+ */
+function componentEnv(config: InfraConfig, system: System | undefined, component: Component | undefined): ComponentEnv {
+  const issues: string[] = [];
+  if (!system || !component) {
+    return { envVars: {}, secretKeys: [], issues };
+  }
+  const mapping = resolveEnvMapping(config, system, component);
+  const mapped = mapEnvVars(component.deployment || ({} as DeploymentConfig), mapping, (_ruleId, message) => issues.push(message));
+  return { ...mapped, issues };
+}
+
+function diffComponent(
+  systemId: string,
+  before: Component | undefined,
+  after: Component | undefined,
+  env: { before: ComponentEnv; after: ComponentEnv },
+  options: DiffOptions
+): ComponentDiff {
+  const { deployment: oldDeployment = {} as DeploymentConfig, ...oldFields } = before || ({} as Component);
+  const { deployment: newDeployment = {} as DeploymentConfig, ...newFields } = after || ({} as Component);
+  const secretKeys = new Set([...env.before.secretKeys, ...env.after.secretKeys]);
+
+  const envIssues = env.after.issues.filter(issue => !env.before.issues.includes(issue));
+
+  const diff: ComponentDiff = {
+    systemId,
+    componentId: (after || before)!.componentId,
+    status: !before ? 'added' : !after ? 'removed' : 'modified',
+    fieldChanges: [
+      ...compareFields(oldFields, newFields, () => false, options),
+      ...compareFields(oldDeployment, newDeployment, isSecretField, options, 'deployment.')
+    ],
+    envChanges: compareFields(
+      env.before.envVars,
+      env.after.envVars,
+      key => secretKeys.has(key),
+      options
+    )
+  };
+  if (envIssues.length > 0) {
+    diff.envIssues = envIssues;
+  }
+  return diff;
+}
+
+/**
+ * Compute the semantic difference between two configurations
+ */
+export function diffConfigs(oldConfig: InfraConfig, newConfig: InfraConfig, options: DiffOptions = {}): ConfigDiff {
+  const before = resolveReferences(oldConfig).config;
+  const after = resolveReferences(newConfig).config;
+
+  const topLevel = (config: InfraConfig) => Object.fromEntries(
+    Object.entries(config).filter(([key]) => !IGNORED_TOP_LEVEL.includes(key))
+  );
+  const topLevelChanges = compareFields(topLevel(before), topLevel(after), () => false, options);
+
+  const oldSystems = new Map((before.systems || []).map(system => [system.systemId, system]));
+  const newSystems = new Map((after.systems || []).map(system => [system.systemId, system]));
+  const systemIds = [...newSystems.keys(), ...[...oldSystems.keys()].filter(id => !newSystems.has(id))];
+
+  const components: ComponentDiff[] = [];
+  for (const systemId of systemIds) {
+    const oldComponents = new Map((oldSystems.get(systemId)?.components || []).map(c => [c.componentId, c]));
+    const newComponents = new Map((newSystems.get(systemId)?.components || []).map(c => [c.componentId, c]));
+    const componentIds = [...newComponents.keys(), ...[...oldComponents.keys()].filter(id => !newComponents.has(id))];
+
+    for (const componentId of componentIds) {
+      const oldComponent = oldComponents.get(componentId);
+      const newComponent = newComponents.get(componentId);
+      const env = {
+        before: componentEnv(before, oldSystems.get(systemId), oldComponent),
+        after: componentEnv(after, newSystems.get(systemId), newComponent)
+      };
+      const diff = diffComponent(systemId, oldComponent, newComponent, env, options);
+      if (diff.status !== 'modified' || diff.fieldChanges.length > 0 || diff.envChanges.length > 0 || diff.envIssues) {
+        components.push(diff);
+      }
+    }
+  }
+
+  const systemsAdded = [...newSystems.keys()].filter(id => !oldSystems.has(id));
+  const systemsRemoved = [...oldSystems.keys()].filter(id => !newSystems.has(id));
+
+  // System-level fields (systemType) show up as a change on every component
+  for (const systemId of systemIds) {
+    const oldType = oldSystems.get(systemId)?.systemType;
+    const newType = newSystems.get(systemId)?.systemType;
+    if (oldType !== undefined && newType !== undefined && oldType !== newType) {
+      topLevelChanges.push({ field: `systems.${systemId}.systemType`, change: 'modified', before: oldType, after: newType, secret: false });
+    }
+  }
+
+  return {
+    identical: topLevelChanges.length === 0 && components.length === 0,
+    topLevelChanges,
+    systemsAdded,
+    systemsRemoved,
+    components
+  };
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? JSON.stringify(value) : canonicalJson(value);
+}
+
+function formatChange(change: FieldChange): string {
+  switch (change.change) {
+    case 'added':
+      return `+ ${change.field}: ${formatValue(change.after)}`;
+    case 'removed':
+      return `- ${change.field}: ${formatValue(change.before)}`;
+    default:
+      return `~ ${change.field}: ${formatValue(change.before)} → ${formatValue(change.after)}`;
+  }
+}
+
+/**
+ * Render a ConfigDiff for people reading a terminal or review comment
+ */
+export function formatConfigDiff(diff: ConfigDiff): string {
+  if (diff.identical) {
+    return 'No changes\n';
+  }
+
+  const lines: string[] = [];
+  lines.push(...diff.topLevelChanges.map(formatChange));
+  lines.push(...diff.systemsAdded.map(id => `+ system ${id}`));
+  lines.push(...diff.systemsRemoved.map(id => `- system ${id}`));
+
+  for (const component of diff.components) {
+    const marker = component.status === 'added' ? '+' : component.status === 'removed' ? '-' : '~';
+    lines.push('', `${marker} ${component.systemId}/${component.componentId} (${component.status})`);
+    if (component.status !== 'modified') {
+      continue;
+    }
+    lines.push(...component.fieldChanges.map(change => `    ${formatChange(change)}`));
+    if (component.envChanges.length > 0 || component.envIssues) {
+      lines.push('  env:');
+      lines.push(...component.envChanges.map(change => `    ${formatChange(change)}`));
+      lines.push(...(component.envIssues || []).map(issue => `    ! ${issue}`));
+    }
+  }
+
+  return lines.join('\n').replace(/^\n/, '') + '\n';
+}
@@ -0,0 +1,62 @@
+/**
+ * Component Discovery
+ *
+ * Picks the component a process runs as: explicit IDs from the options, then
+ * COMPONENT_ID / SYSTEM_ID (or TARGET_*) from the environment, then the first
+ * enabled AGENT, then the first component. Shared by extract-config and the
+ * runtime client.
+ */
+
+import { InfraConfig, Component, ExtractOptions } from './types';
+
+/**
+ * Auto-discover component from environment or config
+ */
+export function discoverComponent(config: InfraConfig, options: Pick<ExtractOptions, 'componentId' | 'systemId'>): { component: Component; systemId: string; systemType: string } {
+  // Try explicit componentId from options or environment
+  const targetComponentId = options.componentId || process.env.COMPONENT_ID || process.env.TARGET_COMPONENT_ID;
+  const targetSystemId = options.systemId || process.env.SYSTEM_ID || process.env.TARGET_SYSTEM_ID;
+
+  if (!config.systems || config.systems.length === 0) {
+    throw new Error('No systems found in infra-config.json');
+  }
+
+  // Strategy 1: Find by explicit IDs
+  if (targetSystemId && targetComponentId) {
+    const system = config.systems.find(s => s.systemId === targetSystemId);
+    if (!system) {
+      throw new Error(`System '${targetSystemId}' not found in infra-config.json`);
+    }
+    const component = system.components.find(c => c.componentId === targetComponentId);
+    if (!component) {
+      throw new Error(`Component '${targetComponentId}' not found in system '${targetSystemId}'`);
+    }
+    return { component, systemId: system.systemId, systemType: system.systemType };
+  }
+
+  // Strategy 2: Find by componentId across all systems
+  if (targetComponentId) {
+    for (const system of config.systems) {
+      const component = system.components.find(c => c.componentId === targetComponentId);
+      if (component) {
+        return { component, systemId: system.systemId, systemType: system.systemType };
+      }
+    }
+    throw new Error(`Component '${targetComponentId}' not found in any system`);
+  }
+
+  // Strategy 3: Find first enabled AGENT component
+  for (const system of config.systems) {
+    const component = system.components.find(c => c.enabled !== false && c.componentType === 'AGENT');
+    if (component) {
+      console.error(`INFO: Auto-discovered component: ${component.componentId} in system ${system.systemId}`);
+      return { component, systemId: system.systemId, systemType: system.systemType };
+    }
+  }
+
+  // Strategy 4: Just use first component of first system
+  const system = config.systems[0];
+  const component = system.components[0];
+  console.error(`WARN: Using first available component: ${component.componentId} in system ${system.systemId}`);
+  return { component, systemId: system.systemId, systemType: system.systemType };
+}
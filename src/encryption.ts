@@ -0,0 +1,200 @@
+/**
+ * Encrypted Field Values
+ *
+ * An alternative to external secret stores: deployment values can be stored
+ * encrypted in infra-config.json itself,
+ *
+ *   "jwtSecret": "enc:v1:9mJ0b3...=="
+ *
+ * where the base64 payload is a 12-byte IV, the 16-byte GCM tag and the
+ * AES-256-GCM ciphertext. The 32-byte key comes from a key file or the
+ * INFRA_CONFIG_KEY environment variable, as base64 or hex. extractConfig
+ * decrypts values transparently, so generated env files contain plain values.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { InfraConfig, InfraConfigOverlay, EncryptConfigResult } from './types';
+import { isSecretField, containsSecretReference } from './secrets';
+
+export const ENCRYPTED_PREFIX = 'enc:v1:';
+export const ENCRYPTION_KEY_ENV = 'INFRA_CONFIG_KEY';
+
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/**
+ * Check whether a value is an enc:v1: encrypted value
+ */
+export function isEncryptedValue(value: unknown): boolean {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+function parseKey(text: string, source: string): Buffer {
+  const trimmed = text.trim();
+  const key = /^[0-9a-fA-F]+$/.test(trimmed) && trimmed.length === KEY_BYTES * 2
+    ? Buffer.from(trimmed, 'hex')
+    : Buffer.from(trimmed, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`Encryption key from ${source} must be ${KEY_BYTES} bytes as base64 or hex (got ${key.length} bytes)`);
+  }
+  return key;
+}
+
+/**
+ * Load the AES-256 key from keyPath, or from $INFRA_CONFIG_KEY when no path is given.
+ * Returns undefined when neither is set.
+ */
+export function loadEncryptionKey(keyPath?: string): Buffer | undefined {
+  if (keyPath) {
+    if (!fs.existsSync(keyPath)) {
+      throw new Error(`Key file not found: ${keyPath}`);
+    }
+    return parseKey(fs.readFileSync(keyPath, 'utf-8'), keyPath);
+  }
+  const fromEnv = process.env[ENCRYPTION_KEY_ENV];
+  return fromEnv ? parseKey(fromEnv, `$${ENCRYPTION_KEY_ENV}`) : undefined;
+}
+
+/**
+ * Generate a random AES-256 key, base64-encoded
+ */
+export function generateEncryptionKey(): string {
+  return crypto.randomBytes(KEY_BYTES).toString('base64');
+}
+
+/**
+ * Encrypt a value as enc:v1:<base64>
+ */
+export function encryptValue(plain: string, key: Buffer): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plain, 'utf-8'), cipher.final()]);
+  return ENCRYPTED_PREFIX + Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+/**
+ * Decrypt an enc:v1: value. Throws on a wrong key or a corrupted value.
+ */
+export function decryptValue(value: string, key: Buffer): string {
+  if (!isEncryptedValue(value)) {
+    throw new Error(`Not an ${ENCRYPTED_PREFIX} value`);
+  }
+  const payload = Buffer.from(value.slice(ENCRYPTED_PREFIX.length), 'base64');
+  if (payload.length < IV_BYTES + TAG_BYTES) {
+    throw new Error('Encrypted value is truncated');
+  }
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, payload.subarray(0, IV_BYTES));
+  decipher.setAuthTag(payload.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  try {
+    return Buffer.concat([decipher.update(payload.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]).toString('utf-8');
+  } catch {
+    throw new Error('Wrong key or corrupted value');
+  }
+}
+
+/**
+ * Decrypt every enc:v1: value in a deployment block.
+ *
+ * Throws when a value is encrypted but no key is available, or does not
+ * decrypt; the error names the field but never a value.
+ */
+export function decryptDeployment<T extends object>(deployment: T, key: Buffer | undefined): T {
+  const decrypt = (value: unknown, fieldPath: string): unknown => {
+    if (isEncryptedValue(value)) {
+      if (!key) {
+        throw new Error(`${fieldPath} is encrypted but no key was given (encryptionKeyPath or $${ENCRYPTION_KEY_ENV})`);
+      }
+      try {
+        return decryptValue(value as string, key);
+      } catch (error) {
+        throw new Error(`Cannot decrypt ${fieldPath}: ${(error as Error).message}`);
+      }
+    }
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const decrypted: Record<string, unknown> = {};
+      for (const [field, nested] of Object.entries(value)) {
+        decrypted[field] = decrypt(nested, `${fieldPath}.${field}`);
+      }
+      return decrypted;
+    }
+    return value;
+  };
+
+  return decrypt(deployment, 'deployment') as T;
+}
+
+/**
+ * Apply fn to every deployment value of the config, returning a copy
+ */
+function mapDeploymentValues<T extends InfraConfig | InfraConfigOverlay>(
+  config: T,
+  fn: (field: string, value: unknown, fieldPath: string) => unknown
+): T {
+  if (!config.systems) {
+    return config;
+  }
+  return {
+    ...config,
+    systems: config.systems.map((system, sysIndex) => ({
+      ...system,
+      components: (system.components || []).map((component, compIndex) => {
+        if (!component.deployment) {
+          return component;
+        }
+        const deployment: Record<string, unknown> = {};
+        for (const [field, value] of Object.entries(component.deployment)) {
+          deployment[field] = fn(field, value, `systems[${sysIndex}].components[${compIndex}].deployment.${field}`);
+        }
+        return { ...component, deployment };
+      })
+    }))
+  } as T;
+}
+
+/**
+ * Encrypt every plain secret field (see isSecretField). Values that are
+ * already encrypted, empty or ${scheme:...} references are left alone.
+ */
+export function encryptConfig<T extends InfraConfig | InfraConfigOverlay>(config: T, key: Buffer): EncryptConfigResult<T> {
+  const fields: string[] = [];
+  const encrypted = mapDeploymentValues(config, (field, value, fieldPath) => {
+    if (!isSecretField(field) || typeof value !== 'string' || value === '' ||
+        isEncryptedValue(value) || containsSecretReference(value)) {
+      return value;
+    }
+    fields.push(fieldPath);
+    return encryptValue(value, key);
+  });
+  return { config: encrypted, fields };
+}
+
+/**
+ * Re-encrypt every encrypted value with a new key (key rotation)
+ */
+export function reencryptConfig<T extends InfraConfig | InfraConfigOverlay>(config: T, oldKey: Buffer, newKey: Buffer): EncryptConfigResult<T> {
+  const fields: string[] = [];
+  const rotate = (value: unknown, fieldPath: string): unknown => {
+    if (isEncryptedValue(value)) {
+      let plain: string;
+      try {
+        plain = decryptValue(value as string, oldKey);
+      } catch (error) {
+        throw new Error(`Cannot decrypt ${fieldPath}: ${(error as Error).message}`);
+      }
+      fields.push(fieldPath);
+      return encryptValue(plain, newKey);
+    }
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const rotated: Record<string, unknown> = {};
+      for (const [field, nested] of Object.entries(value)) {
+        rotated[field] = rotate(nested, `${fieldPath}.${field}`);
+      }
+      return rotated;
+    }
+    return value;
+  };
+  const reencrypted = mapDeploymentValues(config, (_field, value, fieldPath) => rotate(value, fieldPath));
+  return { config: reencrypted, fields };
+}
@@ -0,0 +1,242 @@
+/**
+ * Environment Variable Mapping
+ *
+ * Turns a deployment block into environment variables. By default every
+ * field becomes its SCREAMING_SNAKE_CASE name, moduleUrls/moduleApiBaseUrls
+ * expand into VITE_* variables and other objects are JSON-encoded. Mappings
+ * in the config change that per system type, component type or component:
+ *
+ *   "envMappings": [{
+ *     "componentTypes": ["WEB"],
+ *     "prefix": "VITE_",
+ *     "rename": { "corsOrigin": "ALLOWED_ORIGINS" },
+ *     "aliases": { "port": ["HTTP_PORT"] },
+ *     "derived": { "DATABASE_URL": "mariadb://{mariadbUser}:{mariadbPassword}@{raw:mariadbHost}:{mariadbPort}/{mariadbDatabase}" },
+ *     "flatten": { "featureFlags": "FEATURE_{KEY}" }
+ *   }]
+ *
+ * Two sources producing the same variable name are always an error, never a
+ * silent overwrite.
+ */
+
+import { Component, DeploymentConfig, EnvMapping, InfraConfig, MappedEnvVars, System, ValidationIssue } from './types';
+import { isSecretField } from './secrets';
+
+/**
+ * Variables extract-config sets itself; mappings cannot produce them
+ */
+export const METADATA_ENV_VARS = [
+  'SYSTEM_ID',
+  'SYSTEM_TYPE',
+  'COMPONENT_ID',
+  'COMPONENT_TYPE',
+  'INFRA_CONFIG_HASH',
+  'INFRA_CONFIG_VERSION',
+  'INFRA_ENVIRONMENT',
+  'ENVIRONMENT'
+];
+
+/**
+ * Built-in mapping, applied before any mapping from the config
+ */
+export const DEFAULT_ENV_MAPPING: EnvMapping = {
+  flatten: {
+    moduleUrls: 'VITE_{KEY}_URL',                  // moduleUrls.iam → VITE_IAM_URL
+    moduleApiBaseUrls: 'VITE_{KEY}_API_BASE_URL'   // moduleApiBaseUrls.config → VITE_CONFIG_API_BASE_URL
+  }
+};
+
+/**
+ * Legacy names written for a field's variable only when nothing else produces them
+ */
+const LEGACY_ALIASES: Record<string, string[]> = {
+  oidcRedirectUri: ['OIDC_GUI_REDIRECT_URIS']  // Still read by older WEB builds
+};
+
+const VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const PLACEHOLDER = /\{(raw:)?([A-Za-z0-9_.]+)\}/g;
+
+/**
+ * Convert camelCase to SCREAMING_SNAKE_CASE for environment variables
+ */
+export function toEnvVarName(key: string): string {
+  return key
+    .replace(/([A-Z])/g, '_$1')
+    .toUpperCase()
+    .replace(/^_/, '');
+}
+
+function stringify(value: unknown): string {
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return typeof value === 'boolean' ? (value ? 'true' : 'false') : String(value);
+}
+
+type EnvMappingMap = 'rename' | 'aliases' | 'derived' | 'flatten';
+
+function mergeMap<K extends EnvMappingMap>(merged: EnvMapping, mapping: EnvMapping, key: K): void {
+  if (mapping[key]) {
+    merged[key] = { ...merged[key], ...mapping[key] };
+  }
+}
+
+/**
+ * Combine mappings; for each map a later mapping replaces entries with the same key
+ */
+export function mergeEnvMappings(...mappings: (EnvMapping | undefined)[]): EnvMapping {
+  const merged: EnvMapping = {};
+  for (const mapping of mappings) {
+    if (!mapping) {
+      continue;
+    }
+    if (mapping.prefix !== undefined) {
+      merged.prefix = mapping.prefix;
+    }
+    mergeMap(merged, mapping, 'rename');
+    mergeMap(merged, mapping, 'aliases');
+    mergeMap(merged, mapping, 'derived');
+    mergeMap(merged, mapping, 'flatten');
+  }
+  return merged;
+}
+
+/**
+ * The mapping for one component: the default, the matching config-level
+ * mappings in order, then the component's own envMapping
+ */
+export function resolveEnvMapping(config: Pick<InfraConfig, 'envMappings'>, system: Pick<System, 'systemType'>, component: Component): EnvMapping {
+  const applicable = (config.envMappings || []).filter(mapping =>
+    (!mapping.systemTypes || mapping.systemTypes.includes(system.systemType)) &&
+    (!mapping.componentTypes || mapping.componentTypes.includes(component.componentType))
+  );
+  return mergeEnvMappings(DEFAULT_ENV_MAPPING, ...applicable, component.envMapping);
+}
+
+/**
+ * Apply a mapping, reporting collisions and bad definitions through report().
+ * The source that comes first keeps the name.
+ */
+export function mapEnvVars(
+  deployment: DeploymentConfig,
+  mapping: EnvMapping,
+  report: (ruleId: string, message: string) => void
+): MappedEnvVars {
+  const envVars: Record<string, string> = {};
+  const secretKeys = new Set<string>();
+  const sources = new Map<string, string>(METADATA_ENV_VARS.map(name => [name, 'extract-config metadata']));
+  const fieldVariables = new Map<string, string>();
+
+  const set = (name: string, value: string, source: string, secret: boolean) => {
+    if (!VARIABLE_NAME.test(name)) {
+      report('env/mapping', `Invalid environment variable name '${name}' from ${source}`);
+      return;
+    }
+    const existing = sources.get(name);
+    if (existing) {
+      report('env/duplicate-name', `${name} is produced by both ${existing} and ${source}`);
+      return;
+    }
+    sources.set(name, source);
+    envVars[name] = value;
+    if (secret) {
+      secretKeys.add(name);
+    }
+  };
+
+  for (const [field, value] of Object.entries(deployment)) {
+    if (value === null || value === undefined) {
+      continue;
+    }
+    const secret = isSecretField(field);
+    const flatten = mapping.flatten?.[field];
+    if (flatten && flatten !== 'json' && typeof value === 'object' && !Array.isArray(value)) {
+      if (!flatten.includes('{KEY}')) {
+        report('env/mapping', `Flatten pattern '${flatten}' for ${field} must contain {KEY}`);
+        continue;
+      }
+      for (const [key, nested] of Object.entries(value)) {
+        if (nested !== null && nested !== undefined) {
+          const name = flatten.split('{KEY}').join(key.toUpperCase().replace(/[^A-Z0-9_]/g, '_'));
+          set(name, stringify(nested), `${field}.${key}`, secret);
+        }
+      }
+      continue;
+    }
+    const name = mapping.rename?.[field] ?? `${mapping.prefix || ''}${toEnvVarName(field)}`;
+    set(name, stringify(value), field, secret);
+    if (sources.get(name) === field) {
+      fieldVariables.set(field, name);
+    }
+  }
+
+  // Derived values, only when every referenced field is set
+  for (const [name, template] of Object.entries(mapping.derived || {})) {
+    let complete = true;
+    let secret = false;
+    const value = template.replace(PLACEHOLDER, (_placeholder: string, raw: string | undefined, fieldPath: string) => {
+      let resolved: unknown = deployment;
+      for (const key of fieldPath.split('.')) {
+        resolved = resolved !== null && typeof resolved === 'object' ? (resolved as Record<string, unknown>)[key] : undefined;
+      }
+      if (resolved === null || resolved === undefined) {
+        complete = false;
+        return '';
+      }
+      secret = secret || isSecretField(fieldPath.split('.')[0]);
+      return raw ? stringify(resolved) : encodeURIComponent(stringify(resolved));
+    });
+    if (complete) {
+      set(name, value, `derived ${name}`, secret);
+    }
+  }
+
+  // Aliases follow the field, whatever name prefix or rename gave its variable
+  for (const [field, aliases] of Object.entries(mapping.aliases || {})) {
+    const name = fieldVariables.get(field);
+    if (name) {
+      for (const alias of aliases) {
+        set(alias, envVars[name], `alias of ${field}`, secretKeys.has(name));
+      }
+    }
+  }
+  for (const [field, aliases] of Object.entries(LEGACY_ALIASES)) {
+    const name = fieldVariables.get(field);
+    if (name) {
+      for (const alias of aliases.filter(alias => !sources.has(alias))) {
+        set(alias, envVars[name], `alias of ${field}`, secretKeys.has(name));
+      }
+    }
+  }
+
+  return { envVars, secretKeys: [...secretKeys] };
+}
+
+/**
+ * Map a deployment block to environment variables. Throws when two sources
+ * produce the same name or the mapping is invalid.
+ */
+export function applyEnvMapping(deployment: DeploymentConfig, mapping: EnvMapping = DEFAULT_ENV_MAPPING): MappedEnvVars {
+  return mapEnvVars(deployment, mapping, (_ruleId, message) => {
+    throw new Error(message);
+  });
+}
+
+/**
+ * Check the environment variable mapping of every component
+ */
+export function checkEnvMappings(config: InfraConfig): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  (config.systems || []).forEach((system, sysIndex) => {
+    (system?.components || []).forEach((component, compIndex) => {
+      if (!component?.deployment) {
+        return;
+      }
+      const path = `systems[${sysIndex}].components[${compIndex}]`;
+      mapEnvVars(component.deployment, resolveEnvMapping(config, system, component), (ruleId, message) => {
+        issues.push({ ruleId, severity: 'error', path, message });
+      });
+    });
+  });
+  return issues;
+}
@@ -0,0 +1,136 @@
+/**
+ * Output Formatters
+ *
+ * Render an ExtractedConfig for different deployment targets. Every format is
+ * built from the same envVars so all targets receive identical values.
+ */
+
+import { ExtractedConfig, OutputFormat } from './types';
+import { toYaml } from './yaml';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['dotenv', 'shell', 'json', 'k8s', 'systemd'];
+
+const SAFE_VALUE = /^[A-Za-z0-9_.,:@%+=\/-]*$/;
+
+function sortedEntries(envVars: Record<string, string>): [string, string][] {
+  return Object.keys(envVars).sort().map(key => [key, envVars[key]]);
+}
+
+function headerLines(result: ExtractedConfig): string[] {
+  return [
+    '# Generated by @pharma/infraconfig',
+    `# Component: ${result.componentId}`,
+    `# System: ${result.systemId} (${result.systemType})`,
+    `# Generated: ${new Date().toISOString()}`,
+    ''
+  ];
+}
+
+/**
+ * dotenv: single quotes keep values literal; values containing a single
+ * quote or newline fall back to double quotes with backslash escapes.
+ */
+function quoteDotenv(value: string): string {
+  if (SAFE_VALUE.test(value)) {
+    return value;
+  }
+  if (!value.includes("'") && !value.includes('\n')) {
+    return `'${value}'`;
+  }
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\$/g, '\\$')
+    .replace(/\r/g, '\\r')
+    .replace(/\n/g, '\\n');
+  return `"${escaped}"`;
+}
+
+/**
+ * POSIX shell: single quotes, with embedded single quotes closed and escaped
+ */
+function quoteShell(value: string): string {
+  if (SAFE_VALUE.test(value) && value !== '') {
+    return value;
+  }
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * systemd EnvironmentFile: double quotes with C-style escapes, no expansion
+ */
+function quoteSystemd(value: string): string {
+  if (SAFE_VALUE.test(value)) {
+    return value;
+  }
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\r/g, '\\r')
+    .replace(/\n/g, '\\n');
+  return `"${escaped}"`;
+}
+
+/**
+ * Kubernetes object names must be DNS-1123 labels
+ */
+function toResourceName(componentId: string): string {
+  return componentId.toLowerCase().replace(/[^a-z0-9-]/g, '-').replace(/^-+|-+$/g, '');
+}
+
+function formatKubernetes(result: ExtractedConfig): string {
+  const name = toResourceName(result.componentId);
+  const labels = {
+    'app.kubernetes.io/name': name,
+    'app.kubernetes.io/part-of': result.systemId,
+    'app.kubernetes.io/managed-by': 'infraconfig'
+  };
+  const configData: Record<string, string> = {};
+  const secretData: Record<string, string> = {};
+
+  for (const [key, value] of sortedEntries(result.envVars)) {
+    if (result.secretKeys.includes(key)) {
+      secretData[key] = value;
+    } else {
+      configData[key] = value;
+    }
+  }
+
+  const configMap = toYaml({
+    apiVersion: 'v1',
+    kind: 'ConfigMap',
+    metadata: { name: `${name}-config`, labels },
+    data: configData
+  });
+  const secret = toYaml({
+    apiVersion: 'v1',
+    kind: 'Secret',
+    metadata: { name: `${name}-secrets`, labels },
+    type: 'Opaque',
+    stringData: secretData
+  });
+
+  return `${configMap}---\n${secret}`;
+}
+
+/**
+ * Render an extraction result in the requested format
+ */
+export function formatExtractedConfig(result: ExtractedConfig, format: OutputFormat = 'dotenv'): string {
+  const entries = sortedEntries(result.envVars);
+
+  switch (format) {
+    case 'dotenv':
+      return [...headerLines(result), ...entries.map(([key, value]) => `${key}=${quoteDotenv(value)}`)].join('\n') + '\n';
+    case 'shell':
+      return [...headerLines(result), ...entries.map(([key, value]) => `export ${key}=${quoteShell(value)}`)].join('\n') + '\n';
+    case 'systemd':
+      return [...headerLines(result), ...entries.map(([key, value]) => `${key}=${quoteSystemd(value)}`)].join('\n') + '\n';
+    case 'json':
+      return JSON.stringify(Object.fromEntries(entries), null, 2) + '\n';
+    case 'k8s':
+      return formatKubernetes(result);
+    default:
+      throw new Error(`Unknown output format '${format}'. Must be one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+}
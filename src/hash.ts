@@ -0,0 +1,75 @@
+/**
+ * Content Hash
+ *
+ * contentHash is a SHA-256 over the canonical JSON form of the configuration:
+ * object keys sorted, no whitespace, with contentHash and generatedBy excluded
+ * so regenerating or re-hashing a file does not change its hash.
+ *
+ * Format: "sha256:<64 hex chars>"
+ */
+
+import * as crypto from 'crypto';
+import { InfraConfig, InfraConfigOverlay } from './types';
+
+const EXCLUDED_FIELDS = ['contentHash', 'generatedBy'];
+const HASH_PATTERN = /^sha256:[0-9a-f]{64}$/;
+
+/**
+ * Serialize a JSON value with stable key ordering
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Canonical content of a configuration, without the fields excluded from hashing
+ */
+export function canonicalConfigContent(config: InfraConfig | InfraConfigOverlay): string {
+  const content: Record<string, unknown> = { ...config };
+  for (const field of EXCLUDED_FIELDS) {
+    delete content[field];
+  }
+  return canonicalJson(content);
+}
+
+/**
+ * Compute the contentHash of a configuration
+ */
+export function computeContentHash(config: InfraConfig | InfraConfigOverlay): string {
+  const digest = crypto.createHash('sha256').update(canonicalConfigContent(config), 'utf-8').digest('hex');
+  return `sha256:${digest}`;
+}
+
+/**
+ * Compare a configuration's contentHash with its actual content.
+ *
+ * - missing:  no contentHash field
+ * - legacy:   contentHash is a hand-written label, not a computed hash
+ * - match / mismatch: computed hash compared with the declared one
+ */
+export function verifyContentHash(config: InfraConfig | InfraConfigOverlay): {
+  status: 'match' | 'mismatch' | 'missing' | 'legacy';
+  expected?: string;
+  actual: string;
+} {
+  const actual = computeContentHash(config);
+  const expected = config.contentHash;
+
+  if (!expected) {
+    return { status: 'missing', actual };
+  }
+  if (!HASH_PATTERN.test(expected)) {
+    return { status: 'legacy', expected, actual };
+  }
+  return { status: expected === actual ? 'match' : 'mismatch', expected, actual };
+}
@@ -0,0 +1,272 @@
+/**
+ * Environment Import
+ *
+ * The inverse of extractEnvVars: turns the environment of a legacy service
+ * (a .env file or the environment: section of a docker-compose service) into
+ * a deployment block.
+ *
+ * - MARIADB_HOST → mariadbHost, for every field the schema knows
+ * - VITE_IAM_URL → moduleUrls.iam, VITE_IAM_API_BASE_URL → moduleApiBaseUrls.iam;
+ *   module keys come back lower-case, so moduleUrls.erpAgent (VITE_ERPAGENT_URL)
+ *   is imported as moduleUrls.erpagent
+ * - numbers and booleans are coerced to the DeploymentConfig types
+ * - ${VAR} interpolation becomes an ${env:VAR} secret reference
+ * - legacy names (POSTGRES_*, CORS_ORIGINS, ...) are imported under their
+ *   standard field; unknown variables are reported and left out
+ */
+
+import { DeploymentConfig, ImportEnvIssue, JsonSchema } from './types';
+import { INFRA_CONFIG_SCHEMA } from './schema';
+import { DEPRECATED_FIELDS } from './deprecations';
+import { toEnvVarName, METADATA_ENV_VARS } from './env-mapping';
+
+/**
+ * Legacy variable names without a deprecated field of their own
+ */
+const LEGACY_VARIABLES: Record<string, string> = {
+  OIDC_GUI_REDIRECT_URIS: 'oidcRedirectUri'
+};
+
+const DEPLOYMENT_PROPERTIES: Record<string, JsonSchema> = INFRA_CONFIG_SCHEMA.$defs.DeploymentConfig.properties;
+
+/**
+ * Standard deployment field for each variable name, e.g. MARIADB_HOST → mariadbHost
+ */
+const FIELDS_BY_VARIABLE = new Map(
+  Object.keys(DEPLOYMENT_PROPERTIES)
+    .filter(field => !(field in DEPRECATED_FIELDS))
+    .map(field => [toEnvVarName(field), field] as [string, string])
+);
+
+/**
+ * Deprecated variable names and the standard field they map to, e.g. POSTGRES_HOST → mariadbHost
+ */
+const LEGACY_FIELDS_BY_VARIABLE = new Map<string, string>([
+  ...Object.entries(DEPRECATED_FIELDS).map(([field, replacement]) => [toEnvVarName(field), replacement] as [string, string]),
+  ...Object.entries(LEGACY_VARIABLES)
+]);
+
+const MODULE_URL = /^VITE_([A-Z0-9_]+?)_URL$/;
+const MODULE_API_BASE_URL = /^VITE_([A-Z0-9_]+?)_API_BASE_URL$/;
+const INTERPOLATION = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+function unquote(raw: string, where: string): string {
+  const value = raw.trim();
+  if (value.startsWith("'")) {
+    const end = value.indexOf("'", 1);
+    if (end < 0) {
+      throw new Error(`Unterminated quote ${where}`);
+    }
+    return value.slice(1, end);
+  }
+  if (value.startsWith('"')) {
+    let result = '';
+    for (let i = 1; i < value.length; i++) {
+      const char = value[i];
+      if (char === '"') {
+        return result;
+      }
+      if (char === '\\' && i + 1 < value.length) {
+        const next = value[++i];
+        result += next === 'n' ? '\n' : next === 'r' ? '\r' : next === 't' ? '\t' : next;
+      } else {
+        result += char;
+      }
+    }
+    throw new Error(`Unterminated quote ${where}`);
+  }
+  // Unquoted: an inline comment starts at " #"
+  return value.replace(/\s+#.*$/, '');
+}
+
+/**
+ * Parse a .env file: KEY=value lines, optional "export", single or double
+ * quotes (as written by extract-config) and # comments
+ */
+export function parseEnvFile(content: string): Record<string, string> {
+  const envVars: Record<string, string> = {};
+  content.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (trimmed === '' || trimmed.startsWith('#')) {
+      return;
+    }
+    const match = trimmed.match(/^(?:export\s+)?([A-Za-z_][A-Za-z0-9_.]*)\s*=(.*)$/);
+    if (!match) {
+      throw new Error(`Line ${index + 1} is not KEY=value`);
+    }
+    envVars[match[1]] = unquote(match[2], `on line ${index + 1}`);
+  });
+  return envVars;
+}
+
+/**
+ * Indentation and content of the significant lines of a YAML document
+ */
+function yamlLines(content: string): { indent: number; text: string; line: number }[] {
+  return content.split(/\r?\n/)
+    .map((text, index) => ({ indent: text.length - text.trimStart().length, text: text.trim(), line: index + 1 }))
+    .filter(entry => entry.text !== '' && !entry.text.startsWith('#') && entry.text !== '---');
+}
+
+/**
+ * Read the environment: section of a docker-compose service, in list
+ * (- KEY=value) or mapping (KEY: value) form. A variable without a value is
+ * passed through from the host and becomes ${env:KEY}.
+ *
+ * Only block-style YAML is supported, which is what compose files use.
+ */
+export function parseComposeEnvironment(content: string, service?: string): Record<string, string> {
+  const lines = yamlLines(content);
+  const servicesIndex = lines.findIndex(entry => entry.indent === 0 && entry.text === 'services:');
+  if (servicesIndex < 0) {
+    throw new Error('No services: section found');
+  }
+
+  // Service names are the keys one level below services:
+  const services: { name: string; index: number; indent: number }[] = [];
+  let serviceIndent: number | undefined;
+  for (let i = servicesIndex + 1; i < lines.length && lines[i].indent > 0; i++) {
+    serviceIndent = serviceIndent ?? lines[i].indent;
+    const key = lines[i].text.match(/^["']?([^"':]+)["']?:$/);
+    if (lines[i].indent === serviceIndent && key) {
+      services.push({ name: key[1], index: i, indent: serviceIndent });
+    }
+  }
+  if (services.length === 0) {
+    throw new Error('No services found');
+  }
+  if (!service && services.length > 1) {
+    throw new Error(`Several services (${services.map(s => s.name).join(', ')}); choose one`);
+  }
+  const selected = service ? services.find(s => s.name === service) : services[0];
+  if (!selected) {
+    throw new Error(`Service '${service}' not found (available: ${services.map(s => s.name).join(', ')})`);
+  }
+
+  const envVars: Record<string, string> = {};
+  let environmentIndent: number | undefined;
+  for (let i = selected.index + 1; i < lines.length && lines[i].indent > selected.indent; i++) {
+    const { indent, text, line } = lines[i];
+    if (environmentIndent === undefined) {
+      if (text.startsWith('environment:')) {
+        if (text !== 'environment:') {
+          throw new Error(`Line ${line}: only block-style environment: sections are supported`);
+        }
+        environmentIndent = indent;
+      }
+      continue;
+    }
+    if (indent <= environmentIndent) {
+      break;
+    }
+
+    const where = `on line ${line}`;
+    if (text.startsWith('- ')) {
+      const entry = unquote(text.slice(2), where);
+      const separator = entry.indexOf('=');
+      const key = separator < 0 ? entry.trim() : entry.slice(0, separator).trim();
+      envVars[key] = separator < 0 ? `\${env:${key}}` : entry.slice(separator + 1);
+    } else {
+      const match = text.match(/^["']?([A-Za-z_][A-Za-z0-9_.]*)["']?\s*:(.*)$/);
+      if (!match) {
+        throw new Error(`Line ${line} is not KEY: value`);
+      }
+      const value = match[2].trim();
+      envVars[match[1]] = value === '' || value === '~' || value === 'null' ? `\${env:${match[1]}}` : unquote(value, where);
+    }
+  }
+  if (environmentIndent === undefined) {
+    throw new Error(`Service '${selected.name}' has no environment: section`);
+  }
+  return envVars;
+}
+
+/**
+ * JSON Schema type of a deployment field (the non-reference branch of anyOf)
+ */
+function fieldType(field: string): JsonSchema {
+  const property = DEPLOYMENT_PROPERTIES[field] || {};
+  return property.anyOf ? property.anyOf.find(branch => !branch.$ref) || {} : property;
+}
+
+function coerce(field: string, value: string, variable: string, issues: ImportEnvIssue[]): unknown {
+  const { type, enum: allowed } = fieldType(field);
+  if (/\$\{[a-z][a-z0-9-]*:[^}]*\}/.test(value)) {
+    return value;
+  }
+  if (type === 'integer' || type === 'number') {
+    const number = Number(value);
+    if (value.trim() === '' || !Number.isFinite(number) || (type === 'integer' && !Number.isInteger(number))) {
+      issues.push({ variable, kind: 'invalid', message: `'${field}' must be ${type === 'integer' ? 'an integer' : 'a number'}; kept as a string` });
+      return value;
+    }
+    return number;
+  }
+  if (type === 'boolean') {
+    const normalized = value.trim().toLowerCase();
+    if (['true', '1', 'yes', 'on'].includes(normalized)) return true;
+    if (['false', '0', 'no', 'off'].includes(normalized)) return false;
+    issues.push({ variable, kind: 'invalid', message: `'${field}' must be a boolean; kept as a string` });
+    return value;
+  }
+  if (allowed && !allowed.includes(value)) {
+    issues.push({ variable, kind: 'invalid', message: `'${field}' must be one of ${allowed.join(', ')}` });
+  }
+  return value;
+}
+
+/**
+ * Map environment variables to a deployment block
+ */
+export function importEnvVars(envVars: Record<string, string>): { deployment: Partial<DeploymentConfig>; issues: ImportEnvIssue[] } {
+  const deployment: Record<string, unknown> = {};
+  const modules: Record<string, Record<string, string>> = {};
+  const issues: ImportEnvIssue[] = [];
+  const legacy: [string, string, string][] = [];
+
+  for (const [variable, raw] of Object.entries(envVars)) {
+    const value = raw.replace(INTERPOLATION, '${env:$1}');
+
+    if (METADATA_ENV_VARS.includes(variable)) {
+      issues.push({ variable, kind: 'ignored', message: 'Set by extract-config, not a deployment field' });
+      continue;
+    }
+
+    const apiBaseUrl = variable.match(MODULE_API_BASE_URL);
+    const url = apiBaseUrl ? undefined : variable.match(MODULE_URL);
+    if (apiBaseUrl || url) {
+      const group = apiBaseUrl ? 'moduleApiBaseUrls' : 'moduleUrls';
+      if (!modules[group]) {
+        deployment[group] = modules[group] = {};
+      }
+      modules[group][(apiBaseUrl || url)![1].toLowerCase()] = value;
+      continue;
+    }
+
+    const field = FIELDS_BY_VARIABLE.get(variable);
+    if (field) {
+      deployment[field] = coerce(field, value, variable, issues);
+      continue;
+    }
+
+    const replacement = LEGACY_FIELDS_BY_VARIABLE.get(variable);
+    if (replacement) {
+      legacy.push([variable, replacement, value]);
+      continue;
+    }
+
+    issues.push({ variable, kind: 'unknown', message: 'Not a DeploymentConfig field; not imported' });
+  }
+
+  // Legacy names only fill fields the standard names left empty
+  for (const [variable, field, value] of legacy) {
+    if (field in deployment) {
+      issues.push({ variable, kind: 'legacy', message: `Legacy name; ignored because ${toEnvVarName(field)} is also set` });
+      continue;
+    }
+    deployment[field] = coerce(field, value, variable, issues);
+    issues.push({ variable, kind: 'legacy', message: `Legacy name; imported as '${field}'` });
+  }
+
+  return { deployment, issues };
+}
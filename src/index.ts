@@ -3,4 +3,39 @@
  */
 
 export * from './types';
-export { extractConfig } from './bin/extract-config';
+export { extractConfig, extractAll } from './bin/extract-config';
+export { validate } from './bin/validate-config';
+export { resolveSecretReferences, fileResolver, envResolver, vaultResolver, DEFAULT_SECRET_RESOLVERS, SECRET_FIELDS, isSecretField, containsSecretReference } from './secrets';
+export { loadConfig, mergeConfigs } from './overlay';
+export { renderConfig } from './bin/render-config';
+export { renderComponentTemplate } from './bin/render-template';
+export { renderTemplate, templateContext, TEMPLATE_FILTERS } from './template';
+export { resolveReferences } from './references';
+export { canonicalJson, computeContentHash, verifyContentHash } from './hash';
+export { writeContentHash } from './bin/hash-config';
+export { formatExtractedConfig, OUTPUT_FORMATS } from './formatters';
+export { applyEnvMapping, mapEnvVars, resolveEnvMapping, mergeEnvMappings, checkEnvMappings, toEnvVarName, DEFAULT_ENV_MAPPING, METADATA_ENV_VARS } from './env-mapping';
+export { loadInfraConfig, InfraConfigClient, diffDeployments } from './client';
+export { validateSchema, INFRA_CONFIG_SCHEMA, INFRA_CONFIG_SCHEMA_PATH } from './schema';
+export { migrateConfig, registerMigration, renameDeprecatedFields, CURRENT_SCHEMA_VERSION } from './migrate';
+export { migrateConfigFile } from './bin/migrate-config';
+export { promoteConfig, rollbackConfig, configHistory } from './bin/promote-config';
+export { signConfigFile, verifyConfigFile } from './bin/sign-config';
+export { signConfig, verifyConfigSignature, verifyFileSignature, loadTrustedKeys, generateSigningKeyPair, publicKeyId, signaturePathFor } from './signature';
+export { encryptConfigFile, reencryptConfigFile } from './bin/encrypt-config';
+export { encryptValue, decryptValue, isEncryptedValue, decryptDeployment, encryptConfig, reencryptConfig, loadEncryptionKey, generateEncryptionKey, ENCRYPTED_PREFIX, ENCRYPTION_KEY_ENV } from './encryption';
+export { importEnvFile, insertComponent } from './bin/import-env';
+export { parseEnvFile, parseComposeEnvironment, importEnvVars } from './import-env';
+export { DEPRECATED_FIELDS } from './deprecations';
+export { diffConfigs, formatConfigDiff } from './diff';
+export { analyzeSecrets, classifySecretField } from './secret-hygiene';
+export { buildTopology, checkTopology, formatTopology, GRAPH_FORMATS } from './topology';
+export { connectivityTargets, probeDeployment, probeTcp, probeHttp, formatConnectivityReport, CONNECTIVITY_FORMATS } from './connectivity';
+export { checkConnectivity } from './bin/check-connectivity';
+export { generateCompose } from './compose';
+export { generateComposeFile } from './bin/generate-compose';
+export { detectConflicts, LISTEN_PORT_FIELDS } from './conflicts';
+export { registerProfile, getProfile, isProfiledSystem, checkProfile, checkProfiles } from './profiles';
+export { POLICIES, registerPolicyPack, getPolicyPack, selectPolicyPack, checkPolicies, evaluatePolicies } from './policies';
+export { BUILTIN_RULES, declarativeRule, loadRules, assertRuleIds, runRules } from './rules';
+export { formatValidationResult, validationExitCode, VALIDATION_OUTPUT_FORMATS, VALIDATION_EXIT_CODES } from './report';
@@ -0,0 +1,191 @@
+/**
+ * Configuration Migration
+ *
+ * Brings an infra-config.json up to the current schemaVersion by running
+ * registered step-wise migrations (from -> to), then rewrites deprecated
+ * DeploymentConfig fields to their standard names.
+ *
+ * A config without schemaVersion is treated as version "0", i.e. written
+ * before the MariaDB / naming standardization.
+ */
+
+import { InfraConfig, SchemaMigration, MigrationChange, MigrationConflict, MigrateOptions, MigrationResult } from './types';
+import { DEPRECATED_FIELDS } from './deprecations';
+import { canonicalJson, computeContentHash, verifyContentHash } from './hash';
+
+export const CURRENT_SCHEMA_VERSION = '1.0';
+
+const MIGRATIONS: SchemaMigration[] = [];
+
+/**
+ * Register a schemaVersion migration step
+ */
+export function registerMigration(migration: SchemaMigration): void {
+  if (MIGRATIONS.some(existing => existing.from === migration.from)) {
+    throw new Error(`A migration from schemaVersion ${migration.from} is already registered`);
+  }
+  MIGRATIONS.push(migration);
+}
+
+/**
+ * Rename a key in place, keeping its position in the object
+ */
+function renameKey(target: Record<string, unknown>, from: string, to: string): void {
+  const entries = Object.entries(target);
+  for (const key of Object.keys(target)) {
+    delete target[key];
+  }
+  for (const [key, value] of entries) {
+    target[key === from ? to : key] = value;
+  }
+}
+
+/**
+ * Rewrite deprecated deployment fields to their standard names.
+ *
+ * When both the deprecated and the standard field exist with different
+ * values, onConflict decides: 'fail' keeps both and reports a conflict,
+ * 'keep-new' drops the deprecated field, 'keep-old' moves its value over.
+ */
+export function renameDeprecatedFields(
+  config: InfraConfig,
+  options: MigrateOptions = {}
+): { changes: MigrationChange[]; conflicts: MigrationConflict[] } {
+  const onConflict = options.onConflict || 'fail';
+  const changes: MigrationChange[] = [];
+  const conflicts: MigrationConflict[] = [];
+
+  (config.systems || []).forEach((system, sysIndex) => {
+    (system.components || []).forEach((component, compIndex) => {
+      const deployment = component.deployment as unknown as Record<string, unknown>;
+      if (!deployment) {
+        return;
+      }
+      const depPath = `systems[${sysIndex}].components[${compIndex}].deployment`;
+
+      for (const [oldField, newField] of Object.entries(DEPRECATED_FIELDS)) {
+        if (deployment[oldField] === undefined) {
+          continue;
+        }
+
+        if (deployment[newField] === undefined) {
+          renameKey(deployment, oldField, newField);
+          changes.push({ path: depPath, description: `Renamed ${oldField} to ${newField}` });
+        } else if (canonicalJson(deployment[oldField]) === canonicalJson(deployment[newField])) {
+          delete deployment[oldField];
+          changes.push({ path: depPath, description: `Removed ${oldField} (same value as ${newField})` });
+        } else if (onConflict === 'keep-new') {
+          delete deployment[oldField];
+          changes.push({ path: depPath, description: `Removed ${oldField}, kept differing ${newField}` });
+        } else if (onConflict === 'keep-old') {
+          delete deployment[newField];
+          renameKey(deployment, oldField, newField);
+          changes.push({ path: depPath, description: `Replaced ${newField} with the value of ${oldField}` });
+        } else {
+          conflicts.push({ path: depPath, oldField, newField });
+        }
+      }
+    });
+  });
+
+  return { changes, conflicts };
+}
+
+registerMigration({
+  from: '0',
+  to: '1.0',
+  description: 'MariaDB-only, standardized field names',
+  migrate: config => renameDeprecatedFields(config).changes
+});
+
+/**
+ * Migrate a configuration to CURRENT_SCHEMA_VERSION.
+ *
+ * The input is not modified; the migrated copy is returned with the list of
+ * changes and any unresolved conflicts. A contentHash that matched the input
+ * is recomputed for the output.
+ */
+export function migrateConfig(input: InfraConfig, options: MigrateOptions = {}): MigrationResult {
+  const config: InfraConfig = JSON.parse(JSON.stringify(input));
+  const fromVersion = config.schemaVersion || '0';
+  const changes: MigrationChange[] = [];
+
+  let version = fromVersion;
+  while (version !== CURRENT_SCHEMA_VERSION) {
+    const step = MIGRATIONS.find(migration => migration.from === version);
+    if (!step) {
+      throw new Error(`No migration registered from schemaVersion ${version} (current is ${CURRENT_SCHEMA_VERSION})`);
+    }
+    changes.push(...(step.migrate(config) || []));
+    changes.push({ path: 'schemaVersion', description: `Migrated schemaVersion ${version} to ${step.to}: ${step.description}` });
+    version = step.to;
+  }
+  config.schemaVersion = version;
+
+  // Deprecated fields may also appear in configs already on the current version
+  const renamed = renameDeprecatedFields(config, options);
+  changes.push(...renamed.changes);
+
+  // Keep a valid contentHash valid; legacy labels are left for hash-config --write
+  if (changes.length > 0 && verifyContentHash(input).status === 'match') {
+    config.contentHash = computeContentHash(config);
+  }
+
+  return { config, fromVersion, toVersion: version, changes, conflicts: renamed.conflicts };
+}
+
+/**
+ * Line diff between two texts, unified style with a few lines of context
+ */
+export function formatLineDiff(before: string, after: string, context = 2): string {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Longest common subsequence table
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: { op: ' ' | '-' | '+'; text: string }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ op: ' ', text: a[i++] });
+      j++;
+    } else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push({ op: '-', text: a[i++] });
+    } else {
+      lines.push({ op: '+', text: b[j++] });
+    }
+  }
+
+  const output: string[] = [];
+  let lastPrinted = -1;
+  lines.forEach((line, index) => {
+    if (line.op === ' ') {
+      return;
+    }
+    const start = Math.max(index - context, lastPrinted + 1);
+    if (start > lastPrinted + 1 && output.length > 0) {
+      output.push('...');
+    }
+    for (let k = start; k < index; k++) {
+      output.push(`  ${lines[k].text}`);
+    }
+    output.push(`${line.op} ${line.text}`);
+    lastPrinted = index;
+
+    // Trailing context, stopping early if another change follows
+    let k = index + 1;
+    while (k < lines.length && k <= index + context && lines[k].op === ' ') {
+      output.push(`  ${lines[k].text}`);
+      lastPrinted = k++;
+    }
+  });
+
+  return output.join('\n');
+}
@@ -0,0 +1,169 @@
+/**
+ * Environment Overlays
+ *
+ * A base infra-config.json can be combined with one or more overlay files
+ * (e.g. infra-config.prod.json) instead of maintaining full copies per
+ * environment. Overlays are applied in order:
+ *
+ * - Scalars and arrays replace the base value
+ * - Objects are deep-merged
+ * - A field set to null is deleted
+ * - Systems merge by systemId, components by componentId; unknown ones are appended
+ * - "$delete": true removes a system or component
+ * - "$replace": true replaces a system, component or object instead of merging it
+ */
+
+import * as fs from 'fs';
+import { InfraConfig, InfraConfigOverlay } from './types';
+
+type JsonObject = Record<string, unknown>;
+
+const DIRECTIVES = ['$delete', '$replace'];
+
+function isObject(value: unknown): value is JsonObject {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function arrayOf(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function stripDirectives(value: JsonObject): JsonObject {
+  const result: JsonObject = {};
+  for (const [key, nested] of Object.entries(value)) {
+    if (!DIRECTIVES.includes(key)) {
+      result[key] = nested;
+    }
+  }
+  return result;
+}
+
+function omitKeys(value: JsonObject, keys: string[]): JsonObject {
+  const result: JsonObject = {};
+  for (const [key, nested] of Object.entries(value)) {
+    if (!keys.includes(key)) {
+      result[key] = nested;
+    }
+  }
+  return result;
+}
+
+/**
+ * Deep-merge an overlay object into a base object
+ */
+function mergeObjects(base: JsonObject, overlay: JsonObject): JsonObject {
+  if (overlay.$replace) {
+    return stripDirectives(overlay);
+  }
+
+  const result: JsonObject = { ...base };
+  for (const [key, value] of Object.entries(stripDirectives(overlay))) {
+    if (value === null) {
+      delete result[key];
+    } else if (isObject(value) && isObject(result[key])) {
+      result[key] = mergeObjects(result[key], value);
+    } else if (isObject(value)) {
+      result[key] = mergeObjects({}, value);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Merge an array of identified entries (systems or components) by ID key.
+ * Nested arrays named in `childKeys` are merged recursively with their own ID key.
+ */
+function mergeById(
+  base: unknown[],
+  overlay: unknown[],
+  idKey: string,
+  childKeys: Record<string, string>,
+  location: string
+): unknown[] {
+  const result = [...base];
+
+  for (const item of overlay) {
+    const entry: JsonObject = isObject(item) ? item : {};
+    const id = entry[idKey];
+    if (!id) {
+      throw new Error(`Overlay entry in ${location} is missing ${idKey}`);
+    }
+    const index = result.findIndex(existing => isObject(existing) && existing[idKey] === id);
+    const current = index >= 0 ? result[index] : undefined;
+
+    if (entry.$delete) {
+      if (index >= 0) {
+        result.splice(index, 1);
+      }
+      continue;
+    }
+
+    if (!isObject(current) || entry.$replace) {
+      const replacement = mergeObjects({}, stripDirectives(entry));
+      if (index < 0) {
+        result.push(replacement);
+      } else {
+        result[index] = replacement;
+      }
+      continue;
+    }
+
+    const merged = mergeObjects(current, omitKeys(entry, Object.keys(childKeys)));
+    for (const [childKey, childIdKey] of Object.entries(childKeys)) {
+      const children = entry[childKey];
+      if (Array.isArray(children)) {
+        merged[childKey] = mergeById(arrayOf(current[childKey]), children, childIdKey, {}, `${location}.${id}.${childKey}`);
+      }
+    }
+    result[index] = merged;
+  }
+
+  return result;
+}
+
+/**
+ * Apply overlays to a base configuration, in order
+ */
+export function mergeConfigs(base: InfraConfig, overlays: InfraConfigOverlay[]): InfraConfig {
+  let merged: JsonObject = { ...base };
+
+  for (const overlay of overlays) {
+    const systems = arrayOf(merged.systems);
+    merged = mergeObjects(merged, omitKeys({ ...overlay }, ['systems']));
+    merged.systems = Array.isArray(overlay.systems)
+      ? mergeById(systems, overlay.systems, 'systemId', { components: 'componentId' }, 'systems')
+      : systems;
+  }
+
+  // The merged shape is checked by the schema, not here
+  return merged as unknown as InfraConfig;
+}
+
+/**
+ * Read and parse a single configuration or overlay file
+ */
+export function loadConfigFile<T = InfraConfig>(filePath: string, label = 'infra-config.json'): T {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Configuration file not found: ${filePath}`);
+  }
+
+  const content = fs.readFileSync(filePath, 'utf-8');
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Failed to parse ${label}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Load a base configuration and apply overlay files on top of it
+ */
+export function loadConfig(configPath: string, overlayPaths: string[] = []): InfraConfig {
+  const base = loadConfigFile(configPath);
+  const overlays = overlayPaths.map(overlayPath =>
+    loadConfigFile<InfraConfigOverlay>(overlayPath, `overlay ${overlayPath}`)
+  );
+  return mergeConfigs(base, overlays);
+}
@@ -0,0 +1,239 @@
+/**
+ * Environment Policy Packs
+ *
+ * Settings that are fine on a developer machine must never reach production:
+ * corsOrigin "*", cookieSecure false, allowDevAdminSeed true, MariaDB without
+ * SSL, plain http:// URLs. Each policy detects one of them; a policy pack,
+ * selected by InfraConfig.environment, decides whether it is an error, a
+ * warning or ignored.
+ *
+ * A component can accept a violation with a waiver naming the policy, the
+ * reason and the last day it applies. Waived violations are reported as info;
+ * expired waivers no longer apply and are reported themselves.
+ */
+
+import { InfraConfig, Component, PolicyPack, PolicyWaiver, RuleContext, RuleFinding, ValidationIssue, ValidationRule } from './types';
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '::1', '[::1]'];
+
+/**
+ * Boolean check that also accepts the strings a resolved ${env:...} reference yields
+ */
+function isBoolean(value: unknown, expected: boolean): boolean {
+  return value === expected || (typeof value === 'string' && value.trim().toLowerCase() === String(expected));
+}
+
+/**
+ * Collect plain http:// URLs to other hosts, including nested objects like moduleUrls
+ */
+function findPlainHttp(value: unknown, field: string, into: RuleFinding[]): void {
+  if (typeof value === 'string') {
+    if (/^http:\/\//i.test(value)) {
+      try {
+        if (!LOOPBACK_HOSTS.includes(new URL(value).hostname)) {
+          into.push({ field, message: `${field} uses plain http:// (${value.replace(/^(http:\/\/)[^\/@]*@/i, '$1')})` });
+        }
+      } catch {
+        // Not a URL after all
+      }
+    }
+  } else if (value && typeof value === 'object') {
+    for (const [key, nested] of Object.entries(value)) {
+      findPlainHttp(nested, `${field}.${key}`, into);
+    }
+  }
+}
+
+/**
+ * Built-in policies. Their severity comes from the policy pack.
+ */
+export const POLICIES: ValidationRule[] = [
+  {
+    id: 'policy/cors-wildcard',
+    description: 'corsOrigin allows any origin',
+    check: component => String(component.deployment.corsOrigin ?? '').split(',').some(origin => origin.trim() === '*')
+      ? [{ field: 'corsOrigin', message: 'corsOrigin "*" allows requests from any origin' }]
+      : []
+  },
+  {
+    id: 'policy/insecure-cookie',
+    description: 'Cookies sent without the Secure flag',
+    check: component => isBoolean(component.deployment.cookieSecure, false)
+      ? [{ field: 'cookieSecure', message: 'cookieSecure is false: session cookies are sent over plain http' }]
+      : []
+  },
+  {
+    id: 'policy/dev-admin-seed',
+    description: 'Development admin account seeded',
+    check: component => isBoolean(component.deployment.allowDevAdminSeed, true)
+      ? [{ field: 'allowDevAdminSeed', message: 'allowDevAdminSeed is true: a development admin account is created' }]
+      : []
+  },
+  {
+    id: 'policy/db-ssl-disabled',
+    description: 'Database connection without SSL or certificate verification',
+    check: component => (['mariadbSslEnabled', 'mariadbSslRejectUnauthorized', 'dbSslEnabled', 'dbSslRejectUnauthorized'] as const)
+      .filter(field => isBoolean(component.deployment[field], false))
+      .map(field => ({ field, message: `${field} is false: database traffic is not protected by TLS` }))
+  },
+  {
+    id: 'policy/plain-http',
+    description: 'Endpoint or service URL without TLS',
+    check: component => {
+      const findings: RuleFinding[] = [];
+      findPlainHttp(component.endpoint, 'endpoint', findings);
+      for (const [field, value] of Object.entries(component.deployment || {})) {
+        findPlainHttp(value, field, findings);
+      }
+      return findings;
+    }
+  }
+];
+
+const PACKS: PolicyPack[] = [];
+
+/**
+ * Register a policy pack. Names and environments must be unique.
+ */
+export function registerPolicyPack(pack: PolicyPack): void {
+  if (PACKS.some(existing => existing.name === pack.name)) {
+    throw new Error(`A policy pack named ${pack.name} is already registered`);
+  }
+  const taken = pack.environments.find(environment => selectPolicyPack(environment));
+  if (taken) {
+    throw new Error(`Environment ${taken} is already covered by policy pack ${selectPolicyPack(taken)!.name}`);
+  }
+  PACKS.push(pack);
+}
+
+/**
+ * Policy pack by name
+ */
+export function getPolicyPack(name: string): PolicyPack {
+  const pack = PACKS.find(candidate => candidate.name === name);
+  if (!pack) {
+    throw new Error(`Unknown policy pack '${name}'. Must be one of: ${PACKS.map(p => p.name).join(', ')}`);
+  }
+  return pack;
+}
+
+/**
+ * Policy pack for an environment, if any
+ */
+export function selectPolicyPack(environment: string | undefined): PolicyPack | undefined {
+  const wanted = (environment || '').toLowerCase();
+  return PACKS.find(pack => pack.environments.some(candidate => candidate.toLowerCase() === wanted));
+}
+
+registerPolicyPack({
+  name: 'prod',
+  description: 'Production: every unsafe setting is an error',
+  environments: ['prod', 'production', 'prd'],
+  severities: {
+    'policy/cors-wildcard': 'error',
+    'policy/insecure-cookie': 'error',
+    'policy/dev-admin-seed': 'error',
+    'policy/db-ssl-disabled': 'error',
+    'policy/plain-http': 'error'
+  }
+});
+
+registerPolicyPack({
+  name: 'qual',
+  description: 'Qualification: unsafe settings are warnings, plain http is noted',
+  environments: ['qual', 'qa', 'uat', 'staging'],
+  severities: {
+    'policy/cors-wildcard': 'warning',
+    'policy/insecure-cookie': 'warning',
+    'policy/dev-admin-seed': 'warning',
+    'policy/db-ssl-disabled': 'warning',
+    'policy/plain-http': 'info'
+  }
+});
+
+registerPolicyPack({
+  name: 'dev',
+  description: 'Development: no restrictions',
+  environments: ['dev', 'development', 'local'],
+  severities: {}
+});
+
+/**
+ * Today as YYYY-MM-DD (UTC), comparable with waiver expiry dates
+ */
+function isoDate(now: Date): string {
+  return now.toISOString().slice(0, 10);
+}
+
+/**
+ * Whether a waiver covers a field; a waiver for moduleUrls covers moduleUrls.iam
+ */
+function covers(waiver: PolicyWaiver, field: string): boolean {
+  return !waiver.field || field === waiver.field || field.startsWith(`${waiver.field}.`);
+}
+
+/**
+ * Check one component against a policy pack, applying its waivers
+ */
+export function checkPolicies(
+  component: Component,
+  pack: PolicyPack,
+  context: RuleContext,
+  now: Date = new Date()
+): ValidationIssue[] {
+  if (!component.deployment || typeof component.deployment !== 'object') {
+    return [];
+  }
+  const today = isoDate(now);
+  const waivers = Array.isArray(component.waivers) ? component.waivers : [];
+  const issues: ValidationIssue[] = [];
+
+  waivers.forEach((waiver, index) => {
+    if (waiver && waiver.expires < today) {
+      issues.push({
+        ruleId: 'policy/waiver-expired',
+        severity: 'warning',
+        path: `${context.path}.waivers[${index}]`,
+        message: `Waiver for ${waiver.ruleId}${waiver.field ? ` (${waiver.field})` : ''} expired on ${waiver.expires}`
+      });
+    }
+  });
+
+  for (const policy of POLICIES) {
+    const severity = pack.severities[policy.id];
+    if (!severity) {
+      continue;
+    }
+    for (const finding of policy.check(component, context)) {
+      const field = finding.field!;
+      const waiver = waivers.find(w => w && w.ruleId === policy.id && w.expires >= today && covers(w, field));
+      issues.push({
+        ruleId: policy.id,
+        severity: waiver ? 'info' : severity,
+        path: field === 'endpoint' ? `${context.path}.endpoint` : `${context.path}.deployment.${field}`,
+        message: waiver ? `${finding.message} (waived until ${waiver.expires}: ${waiver.reason})` : finding.message
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Check every component against the policy pack of the configuration's
+ * environment, or against the named pack
+ */
+export function evaluatePolicies(config: InfraConfig, options: { policyPack?: string; now?: Date } = {}): ValidationIssue[] {
+  const pack = options.policyPack ? getPolicyPack(options.policyPack) : selectPolicyPack(config.environment);
+  if (!pack) {
+    return [];
+  }
+  const issues: ValidationIssue[] = [];
+  (config.systems || []).forEach((system, sysIndex) => {
+    (system?.components || []).forEach((component, compIndex) => {
+      if (component) {
+        issues.push(...checkPolicies(component, pack, { config, system, path: `systems[${sysIndex}].components[${compIndex}]` }, options.now));
+      }
+    });
+  });
+  return issues;
+}
@@ -0,0 +1,186 @@
+/**
+ * Deployment Profiles
+ *
+ * DeploymentConfig is one flat set of optional fields. A profile narrows it
+ * for one systemType: which fields an AGENT or WEB component of that type
+ * must set, may set and must not set. The typed deployments in types.ts
+ * (IamAgentDeployment, ...) mirror the built-in profiles.
+ *
+ * System types without a profile only get the generic checks. Further
+ * profiles can be added with registerProfile().
+ */
+
+import { InfraConfig, Component, ComponentProfile, DeploymentConfig, System, SystemProfile, ProfiledSystem, ValidationIssue } from './types';
+
+const WEB_FORBIDDEN: (keyof DeploymentConfig)[] = [
+  'jwtSecret', 'refreshTokenEncKey', 'mfaEncKey', 'scimSharedSecret', 'dataShareSecret',
+  'infraImBearerToken', 'bootstrapOidcClientSecret', 'mariadbPassword', 'mariadbRootPassword'
+];
+const IAM_ONLY: (keyof DeploymentConfig)[] = [
+  'refreshTokenEncKey', 'mfaEncKey', 'scimSharedSecret', 'allowDevAdminSeed',
+  'bootstrapOidcClientId', 'bootstrapOidcRedirectUris', 'bootstrapOidcAllowedScopes', 'bootstrapOidcClientSecret'
+];
+const IM_ONLY: (keyof DeploymentConfig)[] = ['moduleUrls', 'moduleApiBaseUrls'];
+const JWT_VERIFIER: (keyof DeploymentConfig)[][] = [['jwtSecret', 'jwtPublicKeyPath']];
+
+const WEB: ComponentProfile = { forbidden: [...WEB_FORBIDDEN, ...IAM_ONLY] };
+const SERVICE_WEB: ComponentProfile = { ...WEB, forbidden: [...WEB.forbidden!, ...IM_ONLY] };
+
+const PROFILES = new Map<string, SystemProfile>();
+
+/**
+ * Register the profile of a system type
+ */
+export function registerProfile(profile: SystemProfile): void {
+  if (PROFILES.has(profile.systemType)) {
+    throw new Error(`A profile for systemType ${profile.systemType} is already registered`);
+  }
+  PROFILES.set(profile.systemType, profile);
+}
+
+/**
+ * Profile of a system type, if one is registered
+ */
+export function getProfile(systemType: string): SystemProfile | undefined {
+  return PROFILES.get(systemType);
+}
+
+registerProfile({
+  systemType: 'IAM',
+  description: 'Identity and access management: issues tokens, holds the encryption keys',
+  components: {
+    AGENT: {
+      required: ['jwtSecret', 'refreshTokenEncKey', 'mfaEncKey', 'oidcIssuer'],
+      optional: [
+        'scimSharedSecret', 'dataShareSecret', 'infraImBaseUrl', 'infraImBearerToken', 'cookieSecure', 'allowDevAdminSeed',
+        'bootstrapOidcClientId', 'bootstrapOidcRedirectUris', 'bootstrapOidcAllowedScopes', 'bootstrapOidcClientSecret'
+      ],
+      forbidden: [...IM_ONLY, 'infraIamBaseUrl']
+    },
+    WEB: SERVICE_WEB
+  }
+});
+
+registerProfile({
+  systemType: 'IM',
+  description: 'Infrastructure management: module registry and console',
+  components: {
+    AGENT: {
+      optional: ['infraIamBaseUrl', 'infraConfigBaseUrl', 'natsUrl', 'natsStreamName', 'natsSubjectInbound', 'metricsPort'],
+      forbidden: IAM_ONLY
+    },
+    WEB: {
+      ...WEB,
+      required: ['oidcIssuer', 'oidcClientId', 'oidcRedirectUri'],
+      optional: IM_ONLY
+    }
+  }
+});
+
+registerProfile({
+  systemType: 'CONFIG',
+  description: 'Configuration service',
+  components: {
+    AGENT: { requiredOneOf: JWT_VERIFIER, optional: ['infraImBaseUrl'], forbidden: [...IAM_ONLY, ...IM_ONLY] },
+    WEB: SERVICE_WEB
+  }
+});
+
+registerProfile({
+  systemType: 'SECURITY',
+  description: 'Security service',
+  components: {
+    AGENT: { forbidden: [...IAM_ONLY, ...IM_ONLY] },
+    WEB: SERVICE_WEB
+  }
+});
+
+registerProfile({
+  systemType: 'HUB',
+  description: 'Message hub between infrastructure and ERP agents',
+  components: {
+    AGENT: {
+      required: ['natsUrl'],
+      requiredOneOf: JWT_VERIFIER,
+      optional: ['natsClientName', 'natsStreamName', 'natsConsumerName', 'mtlsEnabled', 'hascoServiceUrl', 'infraConfigBaseUrl'],
+      forbidden: [...IAM_ONLY, ...IM_ONLY]
+    },
+    WEB: SERVICE_WEB
+  }
+});
+
+registerProfile({
+  systemType: 'ERP',
+  description: 'ERP integration agents',
+  components: {
+    AGENT: {
+      optional: ['redisUrl', 'natsUrl', 'mtlsCertPath', 'mtlsKeyPath', 'mtlsCaPath', 'jwtPublicKeyPath'],
+      forbidden: [...IAM_ONLY, ...IM_ONLY]
+    },
+    WEB: SERVICE_WEB
+  }
+});
+
+// The profiles registered so far are the ones the typed deployments in types.ts mirror
+const BUILTIN_SYSTEM_TYPES = new Set(PROFILES.keys());
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * Check a component against the profile of its system type
+ */
+export function checkProfile(component: Component, systemType: string, compPath: string): ValidationIssue[] {
+  const profile = getProfile(systemType)?.components[component.componentType];
+  if (!profile || !component.deployment || typeof component.deployment !== 'object') {
+    return [];
+  }
+  const deployment = component.deployment;
+  const depPath = `${compPath}.deployment`;
+  const label = `${systemType} ${component.componentType}`;
+  const issues: ValidationIssue[] = [];
+
+  for (const field of profile.required || []) {
+    if (isMissing(deployment[field])) {
+      issues.push({ ruleId: 'profile/required-field', severity: 'error', path: `${depPath}.${field}`, message: `${field} is required for ${label} components` });
+    }
+  }
+  for (const group of profile.requiredOneOf || []) {
+    if (group.every(field => isMissing(deployment[field]))) {
+      issues.push({ ruleId: 'profile/required-field', severity: 'error', path: depPath, message: `One of ${group.join(', ')} is required for ${label} components` });
+    }
+  }
+  for (const field of profile.forbidden || []) {
+    if (deployment[field] !== undefined) {
+      issues.push({ ruleId: 'profile/forbidden-field', severity: 'error', path: `${depPath}.${field}`, message: `${field} must not be set for ${label} components` });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Whether the system has a built-in profile and every component satisfies it,
+ * narrowing it to the typed deployments
+ */
+export function isProfiledSystem(system: System): system is ProfiledSystem {
+  return BUILTIN_SYSTEM_TYPES.has(system.systemType) && (system.components || []).every(component =>
+    typeof component?.deployment === 'object' && component.deployment !== null &&
+    checkProfile(component, system.systemType, '').length === 0
+  );
+}
+
+/**
+ * Check every component against its system type's profile
+ */
+export function checkProfiles(config: InfraConfig): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  (config.systems || []).forEach((system, sysIndex) => {
+    (system?.components || []).forEach((component, compIndex) => {
+      if (component) {
+        issues.push(...checkProfile(component, system.systemType, `systems[${sysIndex}].components[${compIndex}]`));
+      }
+    });
+  });
+  return issues;
+}
@@ -0,0 +1,191 @@
+/**
+ * Cross-Component Reference Interpolation
+ *
+ * Component values may reference other values in the same configuration
+ * instead of repeating them:
+ *
+ *   "infraIamBaseUrl": "${ref:infra-iam/infra-iam-a.endpoint}"
+ *   "apiBaseUrl": "${ref:self.system.AGENT.endpoint}"
+ *   "metricsPort": "${ref:self.deployment.port}"
+ *
+ * Forms:
+ *   <systemId>/<componentId>.<path>   Any component
+ *   self.<path>                       The component containing the reference
+ *   self.system.<COMPONENT_TYPE>.<path>  The component of that type in the same system
+ *   self.system.<field>               A field of the containing system (systemId, systemType)
+ *
+ * A value consisting of a single reference keeps the referenced type (e.g. a
+ * port stays a number). References embedded in a longer string are interpolated.
+ */
+
+import { InfraConfig, System, Component, ReferenceIssue } from './types';
+
+const REF_PATTERN = /\$\{ref:([^}]+)\}/g;
+const WHOLE_REF_PATTERN = /^\$\{ref:([^}]+)\}$/;
+
+interface Location {
+  system: System;
+  component: Component;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function getPath(target: unknown, segments: string[]): unknown {
+  let current = target;
+  for (const segment of segments) {
+    if (!isPlainObject(current)) {
+      return undefined;
+    }
+    current = current[segment];
+  }
+  return current;
+}
+
+/**
+ * Resolve every ${ref:...} expression in the configuration.
+ *
+ * Returns a resolved copy of the configuration plus one issue per field whose
+ * references are dangling or circular. Such fields keep their raw value.
+ */
+export function resolveReferences(config: InfraConfig): { config: InfraConfig; issues: ReferenceIssue[] } {
+  const issues: ReferenceIssue[] = [];
+  if (!Array.isArray(config.systems)) {
+    return { config, issues };
+  }
+
+  const cache = new Map<string, unknown>();
+
+  const locationKey = (loc: Location, segments: string[]): string => {
+    const base = `${loc.system.systemId}/${loc.component.componentId}`;
+    return segments.length > 0 ? `${base}.${segments.join('.')}` : base;
+  };
+
+  const resolveAt = (loc: Location, segments: string[], stack: string[]): unknown => {
+    const key = locationKey(loc, segments);
+    if (stack.includes(key)) {
+      throw new Error(`Circular reference: ${[...stack.slice(stack.indexOf(key)), key].join(' -> ')}`);
+    }
+    if (cache.has(key)) {
+      return cache.get(key);
+    }
+
+    const raw = getPath(loc.component, segments);
+    let value: unknown = raw;
+    if (typeof raw === 'string') {
+      value = interpolate(raw, loc, [...stack, key]);
+    } else if (isPlainObject(raw)) {
+      const resolved: Record<string, unknown> = {};
+      for (const nestedKey of Object.keys(raw)) {
+        resolved[nestedKey] = resolveAt(loc, [...segments, nestedKey], [...stack, key]);
+      }
+      value = resolved;
+    }
+
+    cache.set(key, value);
+    return value;
+  };
+
+  const resolveExpression = (expression: string, loc: Location, stack: string[]): unknown => {
+    const dangling = (reason: string) => new Error(`Dangling reference '\${ref:${expression}}': ${reason}`);
+    let target: Location;
+    let segments: string[];
+
+    if (expression.startsWith('self.system.')) {
+      const [selector, ...rest] = expression.slice('self.system.'.length).split('.');
+      if (!/^[A-Z]+$/.test(selector)) {
+        const { components, ...systemFields } = loc.system;
+        const value = getPath(systemFields, [selector, ...rest]);
+        if (value === undefined) {
+          throw dangling(`system '${loc.system.systemId}' has no field '${[selector, ...rest].join('.')}'`);
+        }
+        return value;
+      }
+      const component = loc.system.components.find(c => c.componentType === selector && c.enabled !== false)
+        || loc.system.components.find(c => c.componentType === selector);
+      if (!component) {
+        throw dangling(`no ${selector} component in system '${loc.system.systemId}'`);
+      }
+      target = { system: loc.system, component };
+      segments = rest;
+    } else if (expression.startsWith('self.')) {
+      target = loc;
+      segments = expression.slice('self.'.length).split('.');
+    } else {
+      const match = expression.match(/^([^/]+)\/([^.]+)\.(.+)$/);
+      if (!match) {
+        throw dangling('expected <systemId>/<componentId>.<path>, self.<path> or self.system.<COMPONENT_TYPE>.<path>');
+      }
+      const system = config.systems.find(s => s.systemId === match[1]);
+      if (!system) {
+        throw dangling(`system '${match[1]}' not found`);
+      }
+      const component = (system.components || []).find(c => c.componentId === match[2]);
+      if (!component) {
+        throw dangling(`component '${match[2]}' not found in system '${match[1]}'`);
+      }
+      target = { system, component };
+      segments = match[3].split('.');
+    }
+
+    if (getPath(target.component, segments) === undefined) {
+      throw dangling(`'${locationKey(target, segments)}' is not defined`);
+    }
+    return resolveAt(target, segments, stack);
+  };
+
+  const interpolate = (raw: string, loc: Location, stack: string[]): unknown => {
+    const whole = raw.match(WHOLE_REF_PATTERN);
+    if (whole) {
+      return resolveExpression(whole[1], loc, stack);
+    }
+    return raw.replace(REF_PATTERN, (_match: string, expression: string) => {
+      const value = resolveExpression(expression, loc, stack);
+      if (value !== null && typeof value === 'object') {
+        throw new Error(`Reference '\${ref:${expression}}' points to an object and cannot be embedded in a string`);
+      }
+      return String(value);
+    });
+  };
+
+  // Walk every leaf so that one bad reference does not hide the others
+  const walk = (value: unknown, loc: Location, segments: string[], fieldPath: string): unknown => {
+    if (typeof value === 'string') {
+      if (!value.includes('${ref:')) {
+        return value;
+      }
+      try {
+        return resolveAt(loc, segments, []);
+      } catch (error) {
+        issues.push({
+          path: fieldPath,
+          systemId: loc.system.systemId,
+          componentId: loc.component.componentId,
+          message: (error as Error).message
+        });
+        return value;
+      }
+    }
+    if (isPlainObject(value)) {
+      const resolved: Record<string, unknown> = {};
+      for (const [key, nested] of Object.entries(value)) {
+        resolved[key] = walk(nested, loc, [...segments, key], `${fieldPath}.${key}`);
+      }
+      return resolved;
+    }
+    return value;
+  };
+
+  const systems = config.systems.map((system, sysIndex) => {
+    if (!Array.isArray(system.components)) {
+      return system;
+    }
+    const components = system.components.map((component, compIndex) =>
+      walk(component, { system, component }, [], `systems[${sysIndex}].components[${compIndex}]`) as Component
+    );
+    return { ...system, components };
+  });
+
+  return { config: { ...config, systems }, issues };
+}
@@ -0,0 +1,266 @@
+/**
+ * Validation Reports
+ *
+ * Renders a ValidationResult for people (text) and for CI systems (json,
+ * SARIF 2.1.0 for code scanning annotations, JUnit XML for test reports),
+ * and maps it to the validate-config exit code.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ValidationIssue, ValidationResult, ValidationOutputFormat, ValidationExitOptions, ValidationRule } from './types';
+import { BUILTIN_RULES } from './rules';
+
+export const VALIDATION_OUTPUT_FORMATS: ValidationOutputFormat[] = ['text', 'json', 'sarif', 'junit'];
+
+/**
+ * validate-config exit codes. When several apply, the lowest-level problem wins.
+ */
+export const VALIDATION_EXIT_CODES = {
+  ok: 0,
+  policy: 1,        // Semantic errors, or warnings under --strict / --max-warnings
+  invalidJson: 2,   // A file is missing or not valid JSON
+  schema: 3         // Structural errors (schema, overlay shape)
+};
+
+export interface ReportContext {
+  configPath: string;
+  overlayPaths?: string[];
+  rules?: ValidationRule[];   // Custom rules, for their descriptions
+}
+
+function countBySeverity(issues: ValidationIssue[]) {
+  return {
+    errors: issues.filter(issue => issue.severity === 'error').length,
+    warnings: issues.filter(issue => issue.severity === 'warning').length,
+    infos: issues.filter(issue => issue.severity === 'info').length
+  };
+}
+
+/**
+ * Exit code for a validation result
+ */
+export function validationExitCode(result: ValidationResult, options: ValidationExitOptions = {}): number {
+  const errors = result.issues.filter(issue => issue.severity === 'error');
+  if (errors.some(issue => issue.ruleId.startsWith('file/'))) {
+    return VALIDATION_EXIT_CODES.invalidJson;
+  }
+  if (errors.some(issue => issue.ruleId.startsWith('schema/') || issue.ruleId.startsWith('overlay/'))) {
+    return VALIDATION_EXIT_CODES.schema;
+  }
+  if (errors.length > 0) {
+    return VALIDATION_EXIT_CODES.policy;
+  }
+
+  const { warnings } = countBySeverity(result.issues);
+  if ((options.strict && warnings > 0) || (options.maxWarnings !== undefined && warnings > options.maxWarnings)) {
+    return VALIDATION_EXIT_CODES.policy;
+  }
+  return VALIDATION_EXIT_CODES.ok;
+}
+
+/**
+ * Line number of every object member and array element in a JSON document,
+ * keyed by the same paths validate() uses (systems[0].components[1].deployment.port)
+ */
+function locateJsonPaths(text: string): Map<string, number> {
+  const located = new Map<string, number>();
+  let pos = 0;
+  let line = 1;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) {
+      if (text[pos] === '\n') line++;
+      pos++;
+    }
+  };
+  const readString = (): string => {
+    let end = pos + 1;
+    while (text[end] !== '"') {
+      end += text[end] === '\\' ? 2 : 1;
+    }
+    const value = JSON.parse(text.slice(pos, end + 1));
+    pos = end + 1;
+    return value;
+  };
+  const parseValue = (valuePath: string): void => {
+    skipWhitespace();
+    const open = text[pos];
+    if (open === '{' || open === '[') {
+      pos++;
+      skipWhitespace();
+      let index = 0;
+      while (text[pos] !== '}' && text[pos] !== ']') {
+        skipWhitespace();
+        let childPath: string;
+        if (open === '{') {
+          const memberLine = line;
+          const key = readString();
+          childPath = valuePath ? `${valuePath}.${key}` : key;
+          located.set(childPath, memberLine);
+          skipWhitespace();
+          pos++; // ':'
+        } else {
+          childPath = `${valuePath}[${index++}]`;
+          skipWhitespace();
+          located.set(childPath, line);
+        }
+        parseValue(childPath);
+        skipWhitespace();
+        if (text[pos] === ',') pos++;
+        skipWhitespace();
+      }
+      pos++;
+    } else if (open === '"') {
+      readString();
+    } else {
+      while (pos < text.length && !/[\s,\]}]/.test(text[pos])) pos++;
+    }
+  };
+
+  try {
+    JSON.parse(text);
+    parseValue('');
+  } catch {
+    // Not valid JSON: no locations
+  }
+  return located;
+}
+
+/**
+ * Line of an issue path, falling back to the closest enclosing value that exists
+ * (e.g. the deployment object for a missing required field)
+ */
+function lineOf(located: Map<string, number>, issuePath: string): number | undefined {
+  let current = issuePath;
+  while (current) {
+    const line = located.get(current);
+    if (line !== undefined) {
+      return line;
+    }
+    const cut = Math.max(current.lastIndexOf('.'), current.lastIndexOf('['));
+    current = cut > 0 ? current.slice(0, cut) : '';
+  }
+  return undefined;
+}
+
+function formatText(result: ValidationResult): string {
+  const lines: string[] = [];
+  const sections: [ValidationIssue['severity'], string][] = [['error', '❌ ERRORS:'], ['warning', '⚠️  WARNINGS:'], ['info', 'ℹ️  INFO:']];
+
+  for (const [severity, title] of sections) {
+    const issues = result.issues.filter(issue => issue.severity === severity);
+    if (issues.length > 0) {
+      lines.push('', title, ...issues.map(issue => `  ${issue.path}: ${issue.message} (${issue.ruleId})`));
+    }
+  }
+  return lines.join('\n') + (lines.length > 0 ? '\n' : '');
+}
+
+function formatSarif(result: ValidationResult, context: ReportContext): string {
+  const uri = path.relative(process.cwd(), context.configPath).split(path.sep).join('/');
+  let located = new Map<string, number>();
+  // Issue paths refer to the merged config, so lines are only meaningful without overlays
+  if (!context.overlayPaths || context.overlayPaths.length === 0) {
+    try {
+      located = locateJsonPaths(fs.readFileSync(context.configPath, 'utf-8'));
+    } catch {
+      // Missing file is reported as an issue already
+    }
+  }
+
+  const ruleIds = [...new Set(result.issues.map(issue => issue.ruleId))].sort();
+  const descriptions: Record<string, string> = { ...BUILTIN_RULES };
+  for (const rule of context.rules || []) {
+    if (rule.description) descriptions[rule.id] = rule.description;
+  }
+  const levels: Record<ValidationIssue['severity'], string> = { error: 'error', warning: 'warning', info: 'note' };
+
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'infraconfig',
+          rules: ruleIds.map(id => ({ id, shortDescription: { text: descriptions[id] || id } }))
+        }
+      },
+      results: result.issues.map(issue => {
+        const startLine = lineOf(located, issue.path);
+        return {
+          ruleId: issue.ruleId,
+          ruleIndex: ruleIds.indexOf(issue.ruleId),
+          level: levels[issue.severity],
+          message: { text: `${issue.path}: ${issue.message}` },
+          locations: [{
+            physicalLocation: {
+              artifactLocation: { uri },
+              ...(startLine !== undefined ? { region: { startLine } } : {})
+            },
+            logicalLocations: [{ fullyQualifiedName: issue.path }]
+          }]
+        };
+      })
+    }]
+  };
+  return JSON.stringify(sarif, null, 2) + '\n';
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * JUnit XML: one test case per issue, errors and warnings as failures
+ */
+function formatJunit(result: ValidationResult, context: ReportContext): string {
+  const failures = result.issues.filter(issue => issue.severity !== 'info').length;
+  const cases = result.issues.map(issue => {
+    const attributes = `classname="${escapeXml(issue.ruleId)}" name="${escapeXml(issue.path)}"`;
+    if (issue.severity === 'info') {
+      return `    <testcase ${attributes}>\n      <system-out>${escapeXml(issue.message)}</system-out>\n    </testcase>`;
+    }
+    return `    <testcase ${attributes}>\n` +
+      `      <failure type="${issue.severity}" message="${escapeXml(issue.message)}">${escapeXml(`${issue.severity} ${issue.ruleId} at ${issue.path}: ${issue.message}`)}</failure>\n` +
+      '    </testcase>';
+  });
+  if (cases.length === 0) {
+    cases.push('    <testcase classname="infraconfig" name="validate"/>');
+  }
+
+  const name = escapeXml(context.configPath);
+  const tests = cases.length;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="validate-config" tests="${tests}" failures="${failures}">`,
+    `  <testsuite name="${name}" tests="${tests}" failures="${failures}" errors="0" skipped="0">`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Render a validation result in the requested format
+ */
+export function formatValidationResult(result: ValidationResult, format: ValidationOutputFormat, context: ReportContext): string {
+  switch (format) {
+    case 'text':
+      return formatText(result);
+    case 'json':
+      return JSON.stringify({ valid: result.valid, summary: countBySeverity(result.issues), issues: result.issues }, null, 2) + '\n';
+    case 'sarif':
+      return formatSarif(result, context);
+    case 'junit':
+      return formatJunit(result, context);
+    default:
+      throw new Error(`Unknown format '${format}'. Must be one of: ${VALIDATION_OUTPUT_FORMATS.join(', ')}`);
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * Validation Rules
+ *
+ * Every ValidationIssue carries a stable ruleId so CI can filter, count and
+ * annotate issues without matching on message text. IDs are never renamed;
+ * retired checks keep their ID reserved.
+ *
+ * Teams add their own checks as ValidationRules: in code, as a module
+ * exporting rules, or declaratively in a JSON rules file:
+ *
+ *   {
+ *     "plugins": ["./mdg-rules.js", "@pharma/infraconfig-rules-erp"],
+ *     "rules": [
+ *       { "id": "iam/oidc-issuer", "systemTypes": ["IAM"], "componentTypes": ["AGENT"], "requiredFields": ["oidcIssuer"] }
+ *     ]
+ *   }
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { InfraConfig, Component, ValidationIssue, ValidationRule, DeclarativeRule, RulesFile } from './types';
+
+/**
+ * Built-in rule IDs and their short descriptions
+ */
+export const BUILTIN_RULES: Record<string, string> = {
+  'file/not-found': 'Configuration file not found',
+  'file/invalid-json': 'Configuration file is not valid JSON',
+  'hash/mismatch': 'contentHash does not match the file content',
+  'hash/legacy': 'contentHash is a label, not a computed hash',
+  'signature/missing': 'Config file has no signature',
+  'signature/invalid': 'Signature does not match the config file',
+  'signature/untrusted': 'Config file signed with an untrusted key',
+  'signature/trusted-keys': 'Trusted keys missing or unreadable',
+  'overlay/invalid': 'Overlay cannot be merged onto the base configuration',
+  'reference/circular': 'Circular ${ref:...} reference',
+  'reference/dangling': '${ref:...} reference to a missing system, component or field',
+  'reference/invalid': '${ref:...} reference that cannot be embedded',
+  'schema/type': 'Value has the wrong type',
+  'schema/required': 'Required field is missing',
+  'schema/additional-properties': 'Field is not part of the schema',
+  'schema/enum': 'Value is not one of the allowed values',
+  'schema/any-of': 'Value matches none of the allowed forms',
+  'schema/minimum': 'Value is below the minimum',
+  'schema/maximum': 'Value is above the maximum',
+  'schema/min-length': 'Value is too short',
+  'schema/pattern': 'Value does not match the required pattern',
+  'field/deprecated': 'Deprecated field name',
+  'database/local-url-required': 'dbLocalUrl missing for LOCAL database usage',
+  'database/network-key-required': 'dbNetworkKey missing for LOCAL or SHARED database usage',
+  'database/local-url-forbidden': 'dbLocalUrl set for SHARED database usage',
+  'database/unused-fields': 'Database fields set although usage mode is NONE',
+  'mariadb/field-required': 'Incomplete MariaDB connection settings',
+  'mariadb/password-missing': 'mariadbPassword not set',
+  'web/api-base-url': 'WEB component without apiBaseUrl',
+  'profile/required-field': 'Field required by the systemType profile is missing',
+  'profile/forbidden-field': 'Field not allowed by the systemType profile',
+  'secret/empty': 'Secret is empty',
+  'secret/too-short': 'Secret is too short',
+  'secret/weak': 'Secret contains a common word',
+  'secret/low-entropy': 'Secret has low entropy',
+  'secret/key-encoding': 'Encryption key is not base64 or hex',
+  'secret/key-length': 'Encryption key has the wrong length',
+  'secret/reused': 'Same secret used in several places',
+  'secret/leaked': 'Secret value copied into a non-secret field',
+  'secret/url-credentials': 'URL with embedded credentials',
+  'topology/dangling-url': 'Service URL matches no component endpoint',
+  'topology/mismatched-url': 'Service URL points at the wrong component',
+  'topology/disabled-target': 'Service URL points at a disabled component',
+  'conflict/duplicate-system-id': 'Duplicate systemId',
+  'conflict/duplicate-component-id': 'Duplicate componentId',
+  'conflict/container-name': 'Duplicate containerName',
+  'conflict/port': 'Port bound twice on the same host',
+  'conflict/endpoint-port': 'Endpoint port differs from deployment.port',
+  'env/duplicate-name': 'Two sources produce the same environment variable',
+  'env/mapping': 'Invalid environment variable mapping',
+  'policy/cors-wildcard': 'corsOrigin allows any origin',
+  'policy/insecure-cookie': 'Cookies sent without the Secure flag',
+  'policy/dev-admin-seed': 'Development admin account seeded',
+  'policy/db-ssl-disabled': 'Database connection without SSL or certificate verification',
+  'policy/plain-http': 'Endpoint or service URL without TLS',
+  'policy/waiver-expired': 'Policy waiver past its expiry date',
+  'rule/exception': 'A validation rule failed to run'
+};
+
+/**
+ * Rule ID for a JSON Schema keyword, e.g. additionalProperties -> schema/additional-properties
+ */
+export function schemaRuleId(keyword: string): string {
+  return `schema/${keyword.replace(/([A-Z])/g, '-$1').toLowerCase()}`;
+}
+
+/**
+ * Rule ID for a reference resolution message
+ */
+export function referenceRuleId(message: string): string {
+  if (message.startsWith('Circular reference')) return 'reference/circular';
+  if (message.startsWith('Dangling reference')) return 'reference/dangling';
+  return 'reference/invalid';
+}
+
+/**
+ * Turn a declarative rule into a ValidationRule
+ */
+export function declarativeRule(definition: DeclarativeRule): ValidationRule {
+  const { requiredFields = [], forbiddenFields = [], ...rule } = definition;
+  return {
+    ...rule,
+    check(component) {
+      const deployment = new Map<string, unknown>(Object.entries(component.deployment || {}));
+      return [
+        ...requiredFields
+          .filter(field => deployment.get(field) === undefined || deployment.get(field) === '')
+          .map(field => ({ field, message: `${field} is required` })),
+        ...forbiddenFields
+          .filter(field => deployment.get(field) !== undefined)
+          .map(field => ({ field, message: `${field} must not be set` }))
+      ];
+    }
+  };
+}
+
+function assertRules(rules: unknown, source: string): ValidationRule[] {
+  if (!Array.isArray(rules)) {
+    throw new Error(`${source} does not export an array of rules`);
+  }
+  for (const rule of rules) {
+    if (!rule || typeof rule.id !== 'string' || typeof rule.check !== 'function') {
+      throw new Error(`Invalid rule in ${source}: every rule needs an id and a check() function`);
+    }
+  }
+  return rules;
+}
+
+function requireRules(specifier: string, baseDir: string): ValidationRule[] {
+  const isPath = specifier.startsWith('.') || path.isAbsolute(specifier);
+  const resolved = isPath ? path.resolve(baseDir, specifier) : require.resolve(specifier, { paths: [baseDir] });
+  const exported = require(resolved);
+  return assertRules(exported.rules || exported.default || exported, specifier);
+}
+
+/**
+ * Load rules from a JSON rules file, a JS module path or an npm package name.
+ * Relative paths resolve against baseDir.
+ */
+export function loadRules(source: string, baseDir: string = process.cwd()): ValidationRule[] {
+  if (!source.endsWith('.json')) {
+    return requireRules(source, baseDir);
+  }
+
+  const filePath = path.resolve(baseDir, source);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Rules file not found: ${filePath}`);
+  }
+  let content: RulesFile;
+  try {
+    content = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to parse rules file ${filePath}: ${(error as Error).message}`);
+  }
+
+  const fileDir = path.dirname(filePath);
+  return [
+    ...(content.rules || []).map(declarativeRule),
+    ...(content.plugins || []).flatMap(plugin => requireRules(plugin, fileDir))
+  ];
+}
+
+/**
+ * Throw when a rule uses a built-in rule ID or the ID of an earlier rule, e.g.
+ * the same rules file passed twice
+ */
+export function assertRuleIds(rules: ValidationRule[]): void {
+  const seen = new Set<string>();
+  for (const rule of rules) {
+    if (BUILTIN_RULES[rule.id]) {
+      throw new Error(`Rule ID '${rule.id}' is reserved for a built-in rule`);
+    }
+    if (seen.has(rule.id)) {
+      throw new Error(`Duplicate rule ID '${rule.id}'`);
+    }
+    seen.add(rule.id);
+  }
+}
+
+function appliesTo(rule: ValidationRule, systemType: string, componentType: Component['componentType']): boolean {
+  return (!rule.systemTypes || rule.systemTypes.includes(systemType))
+    && (!rule.componentTypes || rule.componentTypes.includes(componentType));
+}
+
+/**
+ * Run rules against every component they apply to, or only against one component
+ */
+export function runRules(
+  config: InfraConfig,
+  rules: ValidationRule[],
+  only?: { systemId: string; componentId: string }
+): ValidationIssue[] {
+  assertRuleIds(rules);
+  const issues: ValidationIssue[] = [];
+
+  (config.systems || []).forEach((system, sysIndex) => {
+    (system?.components || []).forEach((component, compIndex) => {
+      if (!component || (only && (system.systemId !== only.systemId || component.componentId !== only.componentId))) {
+        return;
+      }
+      const compPath = `systems[${sysIndex}].components[${compIndex}]`;
+
+      for (const rule of rules.filter(r => appliesTo(r, system.systemType, component.componentType))) {
+        try {
+          for (const finding of rule.check(component, { config, system, path: compPath })) {
+            issues.push({
+              ruleId: rule.id,
+              severity: finding.severity || rule.severity || 'error',
+              path: finding.path || (finding.field ? `${compPath}.deployment.${finding.field}` : compPath),
+              message: finding.message
+            });
+          }
+        } catch (error) {
+          issues.push({
+            ruleId: 'rule/exception',
+            severity: 'error',
+            path: compPath,
+            message: `Rule '${rule.id}' failed: ${(error as Error).message}`
+          });
+        }
+      }
+    });
+  });
+
+  return issues;
+}
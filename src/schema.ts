@@ -0,0 +1,147 @@
+/**
+ * JSON Schema Validation
+ *
+ * infra-config.schema.json (draft 2020-12) describes InfraConfig, System,
+ * Component and DeploymentConfig. It ships with the package for editor
+ * support via "$schema" and drives the structural checks in validate().
+ *
+ * Only the keywords the schema uses are implemented: type, properties,
+ * required, additionalProperties, items, enum, anyOf, $ref (local),
+ * minimum, maximum, minLength and pattern.
+ */
+
+import * as path from 'path';
+import schema from './schema/infra-config.schema.json';
+import { JsonSchema, SchemaIssue } from './types';
+
+export const INFRA_CONFIG_SCHEMA = schema satisfies JsonSchema;
+
+/**
+ * Absolute path of the shipped schema file, for "$schema" references
+ */
+export const INFRA_CONFIG_SCHEMA_PATH = path.join(__dirname, 'schema', 'infra-config.schema.json');
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function describe(node: JsonSchema): string {
+  if (node.$ref) {
+    return node.$ref.split('/').pop()!.toLowerCase();
+  }
+  if (node.anyOf) {
+    return node.anyOf.map(branch => describe(branch)).join(' or ');
+  }
+  return Array.isArray(node.type) ? node.type.join(' or ') : node.type || 'value';
+}
+
+function resolveRef(root: JsonSchema, ref: string): JsonSchema {
+  const match = ref.match(/^#\/\$defs\/([^/]+)$/);
+  const definition = match ? root.$defs?.[match[1]] : undefined;
+  if (!definition) {
+    throw new Error(`Unsupported $ref '${ref}'`);
+  }
+  return definition;
+}
+
+function childPath(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+function check(value: unknown, node: JsonSchema, root: JsonSchema, instancePath: string, schemaPath: string, issues: SchemaIssue[]): void {
+  const fail = (keyword: string, message: string, at = instancePath) => {
+    issues.push({ path: at || '(root)', schemaPath: `${schemaPath}/${keyword}`, keyword, message });
+  };
+
+  if (node.$ref) {
+    check(value, resolveRef(root, node.$ref), root, instancePath, node.$ref, issues);
+    return;
+  }
+
+  if (node.anyOf) {
+    const matched = node.anyOf.some((branch, index) => {
+      const branchIssues: SchemaIssue[] = [];
+      check(value, branch, root, instancePath, `${schemaPath}/anyOf/${index}`, branchIssues);
+      return branchIssues.length === 0;
+    });
+    if (!matched) {
+      fail('anyOf', `Expected ${describe(node)}, got ${typeOf(value)}`);
+    }
+    return;
+  }
+
+  if (node.type) {
+    const types = Array.isArray(node.type) ? node.type : [node.type];
+    if (!types.some(type => matchesType(value, type))) {
+      fail('type', `Expected ${types.join(' or ')}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+
+  if (node.enum && !node.enum.includes(value)) {
+    fail('enum', `Must be one of: ${node.enum.join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (node.minLength !== undefined && value.length < node.minLength) {
+      fail('minLength', value.length === 0 ? 'Must not be empty' : `Must be at least ${node.minLength} characters`);
+    }
+    if (node.pattern && !new RegExp(node.pattern).test(value)) {
+      fail('pattern', `Does not match pattern ${node.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (node.minimum !== undefined && value < node.minimum) {
+      fail('minimum', `Must be >= ${node.minimum}`);
+    }
+    if (node.maximum !== undefined && value > node.maximum) {
+      fail('maximum', `Must be <= ${node.maximum}`);
+    }
+  }
+
+  const items = node.items;
+  if (Array.isArray(value) && items) {
+    value.forEach((item, index) => {
+      check(item, items, root, `${instancePath}[${index}]`, `${schemaPath}/items`, issues);
+    });
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = node.properties || {};
+
+    for (const key of node.required || []) {
+      if (object[key] === undefined) {
+        fail('required', `Missing required field: ${key}`, childPath(instancePath, key));
+      }
+    }
+
+    for (const [key, nested] of Object.entries(object)) {
+      if (properties[key]) {
+        check(nested, properties[key], root, childPath(instancePath, key), `${schemaPath}/properties/${key}`, issues);
+      } else if (node.additionalProperties === false) {
+        fail('additionalProperties', `Unknown field '${key}'`, childPath(instancePath, key));
+      } else if (node.additionalProperties && typeof node.additionalProperties === 'object') {
+        check(nested, node.additionalProperties, root, childPath(instancePath, key), `${schemaPath}/additionalProperties`, issues);
+      }
+    }
+  }
+}
+
+/**
+ * Validate a value against the InfraConfig schema (or another schema)
+ */
+export function validateSchema(value: unknown, rootSchema: JsonSchema = INFRA_CONFIG_SCHEMA): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  check(value, rootSchema, rootSchema, '', '#', issues);
+  return issues;
+}
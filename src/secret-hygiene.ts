@@ -0,0 +1,188 @@
+/**
+ * Secret Hygiene
+ *
+ * Checks the literal secret values in a configuration: empty secrets, values
+ * that are too short or guessable, encryption keys of the wrong size, the
+ * same secret used in several places, and secrets leaking into non-secret
+ * fields (which end up in ConfigMaps and logs).
+ *
+ * Values given as ${scheme:reference} or encrypted as enc:v1: are not
+ * resolved and not checked.
+ * Issues name the affected fields but never contain the secret values.
+ */
+
+import { InfraConfig, SecretKind, ValidationIssue } from './types';
+import { isSecretField, containsSecretReference } from './secrets';
+import { isEncryptedValue } from './encryption';
+
+export const MIN_SECRET_LENGTH = 16;
+export const MIN_SECRET_ENTROPY_BITS = 48;
+
+/**
+ * Decoded size of encryption keys (AES-256)
+ */
+export const ENCRYPTION_KEY_BYTES: Record<string, number> = {
+  refreshTokenEncKey: 32,
+  mfaEncKey: 32
+};
+const DEFAULT_ENCRYPTION_KEY_BYTES = 32;
+
+const WEAK_WORDS = ['password', 'passwort', 'changeme', 'secret', 'admin', 'default', 'example', 'qwerty', 'letmein', '123456'];
+
+// Secrets shorter than this are not searched for in other fields
+const MIN_LEAK_LENGTH = 8;
+
+const URL_CREDENTIALS = /^[a-z][a-z0-9+.-]*:\/\/[^\/\s:@]+:[^\/\s@]+@/i;
+
+/**
+ * Classify a DeploymentConfig field by the kind of secret it holds
+ */
+export function classifySecretField(field: string): SecretKind | undefined {
+  if (!isSecretField(field)) {
+    return undefined;
+  }
+  if (/EncKey$/.test(field)) return 'encryption-key';
+  if (/PrivateKey$/.test(field)) return 'private-key';
+  if (/Password$/.test(field)) return 'password';
+  if (/(Token|ApiKey)$/.test(field)) return 'token';
+  return 'shared-secret';
+}
+
+/**
+ * Shannon entropy of the value, in bits
+ */
+function entropyBits(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+  let perChar = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    perChar -= p * Math.log2(p);
+  }
+  return perChar * value.length;
+}
+
+/**
+ * Decoded length of a hex or base64 (standard or URL-safe) key, or undefined if it is neither
+ */
+function decodedKeyLength(value: string, expected: number): number | undefined {
+  if (/^[0-9a-fA-F]+$/.test(value) && value.length === expected * 2) {
+    return expected;
+  }
+  if (/^[A-Za-z0-9+\/_-]+={0,2}$/.test(value) && value.replace(/=+$/, '').length % 4 !== 1) {
+    return Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64').length;
+  }
+  return undefined;
+}
+
+function checkValue(field: string, kind: SecretKind, value: string, fieldPath: string): ValidationIssue[] {
+  if (value.trim() === '') {
+    return [{ ruleId: 'secret/empty', severity: 'warning', path: fieldPath, message: 'Secret is empty' }];
+  }
+
+  if (kind === 'encryption-key') {
+    const expected = ENCRYPTION_KEY_BYTES[field] || DEFAULT_ENCRYPTION_KEY_BYTES;
+    const length = decodedKeyLength(value, expected);
+    if (length === undefined) {
+      return [{ ruleId: 'secret/key-encoding', severity: 'error', path: fieldPath, message: `Encryption key is not valid base64 or hex (expected ${expected} bytes)` }];
+    }
+    if (length !== expected) {
+      return [{ ruleId: 'secret/key-length', severity: 'error', path: fieldPath, message: `Encryption key decodes to ${length} bytes, expected ${expected}` }];
+    }
+    return [];
+  }
+
+  if (kind === 'private-key') {
+    return [];
+  }
+
+  if (value.length < MIN_SECRET_LENGTH) {
+    return [{ ruleId: 'secret/too-short', severity: 'warning', path: fieldPath, message: `Secret is shorter than ${MIN_SECRET_LENGTH} characters` }];
+  }
+  const lower = value.toLowerCase();
+  if (WEAK_WORDS.some(word => lower.includes(word))) {
+    return [{ ruleId: 'secret/weak', severity: 'warning', path: fieldPath, message: 'Secret contains a common word or sequence' }];
+  }
+  const bits = entropyBits(value);
+  if (bits < MIN_SECRET_ENTROPY_BITS) {
+    return [{ ruleId: 'secret/low-entropy', severity: 'warning', path: fieldPath, message: `Secret has low entropy (about ${Math.floor(bits)} bits, expected at least ${MIN_SECRET_ENTROPY_BITS})` }];
+  }
+  return [];
+}
+
+/**
+ * Collect string values of non-secret fields, including nested objects like moduleUrls
+ */
+function collectPlainValues(value: unknown, valuePath: string, into: { path: string; value: string }[]): void {
+  if (typeof value === 'string') {
+    into.push({ path: valuePath, value });
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => collectPlainValues(item, `${valuePath}[${index}]`, into));
+  } else if (value && typeof value === 'object') {
+    for (const [key, nested] of Object.entries(value)) {
+      collectPlainValues(nested, `${valuePath}.${key}`, into);
+    }
+  }
+}
+
+/**
+ * Analyze all literal secrets in the configuration
+ */
+export function analyzeSecrets(config: InfraConfig): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const secrets: { path: string; value: string }[] = [];
+  const plainValues: { path: string; value: string }[] = [];
+
+  (config.systems || []).forEach((system, sysIndex) => {
+    (system?.components || []).forEach((component, compIndex) => {
+      const compPath = `systems[${sysIndex}].components[${compIndex}]`;
+      if (!component) {
+        return;
+      }
+      collectPlainValues(component.endpoint, `${compPath}.endpoint`, plainValues);
+
+      for (const [field, value] of Object.entries(component.deployment || {})) {
+        const fieldPath = `${compPath}.deployment.${field}`;
+        const kind = classifySecretField(field);
+        if (!kind) {
+          collectPlainValues(value, fieldPath, plainValues);
+          continue;
+        }
+        if (typeof value !== 'string' || containsSecretReference(value) || isEncryptedValue(value)) {
+          continue;
+        }
+        issues.push(...checkValue(field, kind, value, fieldPath));
+        if (value.trim() !== '') {
+          secrets.push({ path: fieldPath, value });
+        }
+      }
+    });
+  });
+
+  // The same secret in several places: one compromise exposes all of them
+  const firstSeen = new Map<string, string>();
+  for (const secret of secrets) {
+    const first = firstSeen.get(secret.value);
+    if (first) {
+      issues.push({ ruleId: 'secret/reused', severity: 'warning', path: secret.path, message: `Same secret value as ${first}` });
+    } else {
+      firstSeen.set(secret.value, secret.path);
+    }
+  }
+
+  // Secrets copied into non-secret fields are not masked or moved to k8s Secrets
+  for (const plain of plainValues) {
+    if (URL_CREDENTIALS.test(plain.value)) {
+      issues.push({ ruleId: 'secret/url-credentials', severity: 'warning', path: plain.path, message: 'URL contains embedded credentials. Move them to a secret field or ${...} reference' });
+      continue;
+    }
+    const leaked = secrets.find(secret => secret.value.length >= MIN_LEAK_LENGTH && plain.value.includes(secret.value));
+    if (leaked) {
+      issues.push({ ruleId: 'secret/leaked', severity: 'warning', path: plain.path, message: `Contains the value of secret ${leaked.path}` });
+    }
+  }
+
+  return issues;
+}
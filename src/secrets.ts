@@ -0,0 +1,155 @@
+/**
+ * Secret Reference Resolution
+ *
+ * Deployment values may reference secrets instead of containing them:
+ *
+ *   "jwtSecret": "${file:/run/secrets/iam_jwt}"
+ *   "mariadbPassword": "${env:IAM_DB_PASSWORD}"
+ *   "scimSharedSecret": "${vault:kv/iam#scim}"
+ *
+ * References are resolved at extraction time through pluggable resolvers,
+ * selected by scheme. This keeps infra-config.json free of credentials.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { SecretResolver, SecretResolverContext } from './types';
+
+/**
+ * Matches ${scheme:reference}. Schemes are lowercase so shell-style
+ * defaults like ${VAR:-value} are left untouched.
+ */
+const REFERENCE_PATTERN = /\$\{([a-z][a-z0-9-]*):([^}]*)\}/g;
+
+/**
+ * ${file:/path/to/secret} - reads the file and strips the trailing newline.
+ * Relative paths are resolved against the directory of infra-config.json.
+ */
+export const fileResolver: SecretResolver = {
+  scheme: 'file',
+  resolve(reference: string, context: SecretResolverContext): string {
+    const filePath = path.resolve(context.baseDir, reference);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Secret file not found: ${filePath}`);
+    }
+    return fs.readFileSync(filePath, 'utf-8').replace(/\r?\n$/, '');
+  }
+};
+
+/**
+ * ${env:VARIABLE_NAME} - reads the variable from the process environment
+ */
+export const envResolver: SecretResolver = {
+  scheme: 'env',
+  resolve(reference: string): string {
+    const value = process.env[reference];
+    if (value === undefined) {
+      throw new Error(`Environment variable '${reference}' is not set`);
+    }
+    return value;
+  }
+};
+
+/**
+ * ${vault:<path>#<field>} - reads a KV field using the vault CLI.
+ * Authentication comes from the usual VAULT_ADDR / VAULT_TOKEN variables.
+ */
+export const vaultResolver: SecretResolver = {
+  scheme: 'vault',
+  resolve(reference: string): string {
+    const [secretPath, field] = reference.split('#');
+    if (!secretPath || !field) {
+      throw new Error(`Vault reference must have the form <path>#<field>, got '${reference}'`);
+    }
+    try {
+      return execFileSync('vault', ['kv', 'get', `-field=${field}`, secretPath], {
+        encoding: 'utf-8',
+        stdio: ['ignore', 'pipe', 'pipe']
+      }).replace(/\r?\n$/, '');
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr;
+      throw new Error(`vault kv get failed: ${stderr ? stderr.trim() : (error as Error).message}`);
+    }
+  }
+};
+
+export const DEFAULT_SECRET_RESOLVERS: SecretResolver[] = [fileResolver, envResolver, vaultResolver];
+
+/**
+ * Resolve every secret reference in a deployment block.
+ *
+ * Custom resolvers override the defaults with the same scheme.
+ * Throws when a scheme is unknown or a resolver fails; the error names the
+ * field and the reference but never a resolved value.
+ */
+export function resolveSecretReferences<T extends object>(
+  deployment: T,
+  context: SecretResolverContext,
+  resolvers: SecretResolver[] = []
+): T {
+  const byScheme = new Map<string, SecretResolver>();
+  for (const resolver of [...DEFAULT_SECRET_RESOLVERS, ...resolvers]) {
+    byScheme.set(resolver.scheme, resolver);
+  }
+
+  const resolveValue = (value: unknown, fieldPath: string): unknown => {
+    if (typeof value === 'string') {
+      return value.replace(REFERENCE_PATTERN, (reference: string, scheme: string, target: string) => {
+        const resolver = byScheme.get(scheme);
+        if (!resolver) {
+          throw new Error(`Cannot resolve '${reference}' at ${fieldPath}: no secret resolver registered for scheme '${scheme}'`);
+        }
+        try {
+          return resolver.resolve(target, context);
+        } catch (error) {
+          throw new Error(`Cannot resolve '${reference}' at ${fieldPath}: ${(error as Error).message}`);
+        }
+      });
+    }
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const resolved: Record<string, unknown> = {};
+      for (const [key, nested] of Object.entries(value)) {
+        resolved[key] = resolveValue(nested, `${fieldPath}.${key}`);
+      }
+      return resolved;
+    }
+    return value;
+  };
+
+  return resolveValue(deployment, 'deployment') as T;
+}
+
+/**
+ * DeploymentConfig fields that hold credentials or key material
+ */
+export const SECRET_FIELDS = [
+  'mariadbPassword',
+  'mariadbRootPassword',
+  'jwtSecret',
+  'refreshTokenEncKey',
+  'mfaEncKey',
+  'scimSharedSecret',
+  'dataShareSecret',
+  'infraImBearerToken',
+  'bootstrapOidcClientSecret'
+];
+
+/**
+ * Naming convention for secret fields not listed in SECRET_FIELDS
+ */
+const SECRET_FIELD_PATTERN = /(Password|Secret|Token|EncKey|ApiKey|PrivateKey)$/;
+
+/**
+ * Check whether a DeploymentConfig field holds a secret
+ */
+export function isSecretField(field: string): boolean {
+  return SECRET_FIELDS.includes(field) || SECRET_FIELD_PATTERN.test(field);
+}
+
+/**
+ * Check whether a value contains a ${scheme:reference} instead of a literal secret
+ */
+export function containsSecretReference(value: string): boolean {
+  return new RegExp(REFERENCE_PATTERN.source).test(value);
+}
@@ -0,0 +1,146 @@
+/**
+ * Config Signatures
+ *
+ * A detached Ed25519 signature proves that a configuration file was approved
+ * and not edited on the host afterwards. The signature covers the same
+ * canonical content as contentHash (keys sorted, contentHash and generatedBy
+ * excluded), so reformatting the file or re-hashing it keeps it valid.
+ *
+ * Signatures live next to the file as <file>.sig:
+ *
+ *   {
+ *     "algorithm": "ed25519",
+ *     "keyId": "sha256:1f0c...",
+ *     "contentHash": "sha256:9a3e...",
+ *     "signedAtUtc": "2026-03-01T10:00:00.000Z",
+ *     "signature": "<base64>"
+ *   }
+ *
+ * Verification fails closed: a missing, unreadable or wrong signature, or one
+ * made with a key that is not trusted, is never accepted.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { InfraConfig, InfraConfigOverlay, ConfigSignature, SignatureCheck } from './types';
+import { canonicalConfigContent, computeContentHash } from './hash';
+
+export const SIGNATURE_EXTENSION = '.sig';
+
+/**
+ * Default location of a file's detached signature
+ */
+export function signaturePathFor(configPath: string): string {
+  return `${configPath}${SIGNATURE_EXTENSION}`;
+}
+
+/**
+ * Key ID: SHA-256 of the DER-encoded public key
+ */
+export function publicKeyId(key: crypto.KeyObject): string {
+  const publicKey = key.type === 'private' ? crypto.createPublicKey(key) : key;
+  const der = publicKey.export({ type: 'spki', format: 'der' });
+  return `sha256:${crypto.createHash('sha256').update(der).digest('hex')}`;
+}
+
+function readKey(keyPath: string, type: 'private' | 'public'): crypto.KeyObject {
+  if (!fs.existsSync(keyPath)) {
+    throw new Error(`Key file not found: ${keyPath}`);
+  }
+  let key: crypto.KeyObject;
+  try {
+    const pem = fs.readFileSync(keyPath, 'utf-8');
+    key = type === 'private' ? crypto.createPrivateKey(pem) : crypto.createPublicKey(pem);
+  } catch (error) {
+    throw new Error(`Failed to read ${type} key ${keyPath}: ${(error as Error).message}`);
+  }
+  if (key.asymmetricKeyType !== 'ed25519') {
+    throw new Error(`${keyPath} is not an Ed25519 ${type} key (${key.asymmetricKeyType})`);
+  }
+  return key;
+}
+
+/**
+ * Load trusted public keys (PEM files), keyed by key ID
+ */
+export function loadTrustedKeys(keyPaths: string[]): Map<string, crypto.KeyObject> {
+  const keys = new Map<string, crypto.KeyObject>();
+  for (const keyPath of keyPaths) {
+    const key = readKey(keyPath, 'public');
+    keys.set(publicKeyId(key), key);
+  }
+  return keys;
+}
+
+/**
+ * Generate an Ed25519 key pair as PEM (PKCS#8 private key, SPKI public key)
+ */
+export function generateSigningKeyPair(): { privateKey: string; publicKey: string; keyId: string } {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+  return {
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    keyId: publicKeyId(publicKey)
+  };
+}
+
+/**
+ * Sign a configuration with the Ed25519 private key in keyPath
+ */
+export function signConfig(config: InfraConfig | InfraConfigOverlay, keyPath: string, now: Date = new Date()): ConfigSignature {
+  const key = readKey(keyPath, 'private');
+  const signature = crypto.sign(null, Buffer.from(canonicalConfigContent(config), 'utf-8'), key);
+  return {
+    algorithm: 'ed25519',
+    keyId: publicKeyId(key),
+    contentHash: computeContentHash(config),
+    signedAtUtc: now.toISOString(),
+    signature: signature.toString('base64')
+  };
+}
+
+/**
+ * Verify a configuration against its signature and a set of trusted keys
+ */
+export function verifyConfigSignature(
+  config: InfraConfig | InfraConfigOverlay,
+  signature: ConfigSignature | undefined,
+  trustedKeys: Map<string, crypto.KeyObject>
+): SignatureCheck {
+  if (!signature) {
+    return { status: 'missing', message: 'No signature' };
+  }
+  if (signature.algorithm !== 'ed25519' || typeof signature.signature !== 'string' || typeof signature.keyId !== 'string') {
+    return { status: 'invalid', keyId: signature.keyId, message: `Unsupported or malformed signature (algorithm ${signature.algorithm})` };
+  }
+  const key = trustedKeys.get(signature.keyId);
+  if (!key) {
+    return { status: 'untrusted', keyId: signature.keyId, message: `Signed with key ${signature.keyId}, which is not trusted` };
+  }
+  const content = Buffer.from(canonicalConfigContent(config), 'utf-8');
+  if (!crypto.verify(null, content, key, Buffer.from(signature.signature, 'base64'))) {
+    return { status: 'invalid', keyId: signature.keyId, message: 'Signature does not match the content. The file was modified after signing' };
+  }
+  return { status: 'valid', keyId: signature.keyId, message: `Signed by ${signature.keyId} at ${signature.signedAtUtc}` };
+}
+
+/**
+ * Verify the detached signature of a file (<configPath>.sig)
+ */
+export function verifyFileSignature(
+  configPath: string,
+  config: InfraConfig | InfraConfigOverlay,
+  trustedKeys: Map<string, crypto.KeyObject>
+): SignatureCheck {
+  const signaturePath = signaturePathFor(configPath);
+  if (!fs.existsSync(signaturePath)) {
+    return { status: 'missing', message: `Signature file not found: ${signaturePath}` };
+  }
+  let signature: ConfigSignature;
+  try {
+    signature = JSON.parse(fs.readFileSync(signaturePath, 'utf-8'));
+  } catch (error) {
+    return { status: 'invalid', message: `Failed to parse ${signaturePath}: ${(error as Error).message}` };
+  }
+  return verifyConfigSignature(config, signature, trustedKeys);
+}
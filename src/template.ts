@@ -0,0 +1,293 @@
+/**
+ * Template Rendering
+ *
+ * Renders config files that are not environment variables (nginx configs,
+ * Vite runtime-config.js, my.cnf snippets) from a component:
+ *
+ *   server {
+ *     listen {{ deployment.port }};
+ *   {{#if deployment.mtlsEnabled}}
+ *     ssl_client_certificate {{ deployment.mtlsCaPath }};
+ *   {{/if}}
+ *   }
+ *
+ *   window.__CONFIG__ = {
+ *   {{#each deployment.moduleUrls as name, url}}
+ *     {{ name | json }}: {{ url | json }}{{#unless loop.last}},{{/unless}}
+ *   {{/each}}
+ *   };
+ *
+ * Tags:
+ *   {{ path | filter }}                 output; fails when the value is undefined
+ *   {{#if path}} {{else}} {{/if}}       also {{#if path == "value"}} and !=
+ *   {{#unless path}} {{/unless}}
+ *   {{#each path as item}}              arrays and object values
+ *   {{#each path as key, value}}        object entries; loop.index, loop.first, loop.last
+ *   {{! comment }}
+ *
+ * Filters: json, shell, url, upper, lower. Output is not escaped otherwise.
+ * A block tag alone on its line removes the whole line.
+ *
+ * Rendering is strict: an undefined value in an output tag, an unknown
+ * variable or filter, or an unknown deployment field in a condition is an
+ * error. A condition on a known but unset field is simply false.
+ */
+
+import { ExtractedConfig, TemplateContext } from './types';
+import { INFRA_CONFIG_SCHEMA } from './schema';
+
+type Node =
+  | { kind: 'text'; text: string }
+  | { kind: 'output'; expression: string; filters: string[]; line: number }
+  | { kind: 'if'; condition: string; negate: boolean; then: Node[]; otherwise: Node[]; line: number }
+  | { kind: 'each'; expression: string; names: string[]; body: Node[]; line: number };
+
+type Token =
+  | { kind: 'text'; text: string }
+  | { kind: 'tag'; content: string; line: number };
+
+type Scope = Record<string, unknown>;
+
+const TAG = /\{\{([\s\S]*?)\}\}/g;
+const PATH = /^[A-Za-z_@][A-Za-z0-9_-]*(\.[A-Za-z0-9_-]+)*$/;
+const DEPLOYMENT_FIELDS = Object.keys(INFRA_CONFIG_SCHEMA.$defs.DeploymentConfig.properties);
+
+/**
+ * Escaping and formatting filters
+ */
+export const TEMPLATE_FILTERS: Record<string, (value: unknown) => string> = {
+  json: value => JSON.stringify(value),
+  shell: value => `'${String(value).replace(/'/g, `'\\''`)}'`,
+  url: value => encodeURIComponent(String(value)),
+  upper: value => String(value).toUpperCase(),
+  lower: value => String(value).toLowerCase()
+};
+
+function isBlockTag(content: string): boolean {
+  return /^\s*[#\/!]/.test(content) || /^\s*else\s*$/.test(content);
+}
+
+/**
+ * Split a template into text and tags. Block tags standing alone on a line
+ * take the line with them.
+ */
+function tokenize(template: string): Token[] {
+  const tokens: Token[] = [];
+  let last = 0;
+  let match: RegExpExecArray | null;
+  TAG.lastIndex = 0;
+  while ((match = TAG.exec(template)) !== null) {
+    tokens.push({ kind: 'text', text: template.slice(last, match.index) });
+    tokens.push({ kind: 'tag', content: match[1], line: template.slice(0, match.index).split('\n').length });
+    last = match.index + match[0].length;
+  }
+  tokens.push({ kind: 'text', text: template.slice(last) });
+
+  // Decide on the original text first; neighbouring standalone tags share text tokens
+  const original = tokens.map(token => token.kind === 'text' ? token.text : '');
+  const trimEnd = new Set<number>();
+  const trimStart = new Set<number>();
+  for (let i = 1; i < tokens.length; i += 2) {
+    const token = tokens[i] as { content: string };
+    const before = original[i - 1];
+    const after = original[i + 1];
+    const lineStart = i === 1 ? /^[ \t]*$/.test(before) || /\n[ \t]*$/.test(before) : /\n[ \t]*$/.test(before);
+    const lineEnd = /^[ \t]*\r?\n/.test(after) || (i + 1 === tokens.length - 1 && /^[ \t]*$/.test(after));
+    if (isBlockTag(token.content) && lineStart && lineEnd) {
+      trimEnd.add(i - 1);
+      trimStart.add(i + 1);
+    }
+  }
+  tokens.forEach((token, index) => {
+    if (token.kind === 'text') {
+      if (trimStart.has(index)) token.text = token.text.replace(/^[ \t]*\r?\n?/, '');
+      if (trimEnd.has(index)) token.text = token.text.replace(/[ \t]*$/, '');
+    }
+  });
+  return tokens;
+}
+
+function parse(tokens: Token[], name: string): Node[] {
+  let position = 0;
+
+  const parseUntil = (closers: string[]): { nodes: Node[]; closer?: string; line?: number } => {
+    const nodes: Node[] = [];
+    while (position < tokens.length) {
+      const token = tokens[position++];
+      if (token.kind === 'text') {
+        if (token.text !== '') nodes.push({ kind: 'text', text: token.text });
+        continue;
+      }
+      const content = token.content.trim();
+      const where = `${name}:${token.line}`;
+
+      if (content.startsWith('!')) {
+        continue;
+      }
+      if (closers.includes(content)) {
+        return { nodes, closer: content, line: token.line };
+      }
+
+      const block = content.match(/^#(if|unless|each)\s+(.+)$/);
+      if (block) {
+        const [, keyword, argument] = block;
+        if (keyword === 'each') {
+          const each = argument.match(/^(\S+)\s+as\s+([A-Za-z_]\w*)(?:\s*,\s*([A-Za-z_]\w*))?$/);
+          if (!each) {
+            throw new Error(`Expected {{#each <path> as <item>}} or {{#each <path> as <key>, <value>}} at ${where}`);
+          }
+          const body = parseUntil(['/each']);
+          if (!body.closer) throw new Error(`Unclosed {{#each}} at ${where}`);
+          nodes.push({ kind: 'each', expression: each[1], names: each.slice(2).filter(Boolean), body: body.nodes, line: token.line });
+        } else {
+          const then = parseUntil(['else', `/${keyword}`]);
+          if (!then.closer) throw new Error(`Unclosed {{#${keyword}}} at ${where}`);
+          const otherwise = then.closer === 'else' ? parseUntil([`/${keyword}`]) : { nodes: [], closer: `/${keyword}` };
+          if (!otherwise.closer) throw new Error(`Unclosed {{#${keyword}}} at ${where}`);
+          nodes.push({ kind: 'if', condition: argument.trim(), negate: keyword === 'unless', then: then.nodes, otherwise: otherwise.nodes, line: token.line });
+        }
+        continue;
+      }
+      if (content.startsWith('/') || content === 'else' || content.startsWith('#')) {
+        throw new Error(`Unexpected {{${content}}} at ${where}`);
+      }
+
+      const [expression, ...filters] = content.split('|').map(part => part.trim());
+      for (const filter of filters) {
+        if (!TEMPLATE_FILTERS[filter]) {
+          throw new Error(`Unknown filter '${filter}' at ${where}. Available: ${Object.keys(TEMPLATE_FILTERS).join(', ')}`);
+        }
+      }
+      nodes.push({ kind: 'output', expression, filters, line: token.line });
+    }
+    return { nodes };
+  };
+
+  const result = parseUntil([]);
+  return result.nodes;
+}
+
+/**
+ * Look up a dotted path. Returns undefined for a missing field and throws for
+ * an unknown variable.
+ */
+function lookup(expression: string, scope: Scope, where: string): unknown {
+  if (!PATH.test(expression)) {
+    throw new Error(`Invalid expression '${expression}' at ${where}`);
+  }
+  const [root, ...keys] = expression.split('.');
+  if (!(root in scope)) {
+    throw new Error(`Unknown variable '${root}' at ${where}`);
+  }
+  let value: unknown = scope[root];
+  for (const key of keys) {
+    if (value === null || value === undefined || typeof value !== 'object') {
+      return undefined;
+    }
+    value = Object.prototype.hasOwnProperty.call(value, key) ? (value as Record<string, unknown>)[key] : undefined;
+  }
+  return value;
+}
+
+function parseLiteral(text: string): unknown {
+  if (/^(["']).*\1$/.test(text)) return text.slice(1, -1);
+  if (text === 'true' || text === 'false') return text === 'true';
+  if (text !== '' && !Number.isNaN(Number(text))) return Number(text);
+  return undefined;
+}
+
+function evaluateCondition(condition: string, scope: Scope, where: string): boolean {
+  const comparison = condition.match(/^(\S+)\s*(==|!=)\s*(.+)$/);
+  const expression = comparison ? comparison[1] : condition;
+  const value = lookup(expression, scope, where);
+
+  // Typos in deployment field names would otherwise silently be false
+  const [root, field] = expression.split('.');
+  if (root === 'deployment' && field && value === undefined && !DEPLOYMENT_FIELDS.includes(field)) {
+    throw new Error(`Unknown deployment field '${field}' at ${where}`);
+  }
+
+  if (comparison) {
+    const literal = parseLiteral(comparison[3].trim());
+    if (literal === undefined) {
+      throw new Error(`Expected a string, number or boolean after ${comparison[2]} at ${where}`);
+    }
+    return comparison[2] === '==' ? value === literal : value !== literal;
+  }
+  if (Array.isArray(value)) return value.length > 0;
+  if (value && typeof value === 'object') return Object.keys(value).length > 0;
+  return Boolean(value);
+}
+
+function render(nodes: Node[], scope: Scope, name: string): string {
+  let output = '';
+  for (const node of nodes) {
+    if (node.kind === 'text') {
+      output += node.text;
+      continue;
+    }
+    const where = `${name}:${node.line}`;
+
+    if (node.kind === 'output') {
+      const value = lookup(node.expression, scope, where);
+      if (value === undefined || value === null) {
+        throw new Error(`Undefined variable '${node.expression}' at ${where}`);
+      }
+      if (typeof value === 'object' && !node.filters.includes('json')) {
+        throw new Error(`'${node.expression}' is an object at ${where}; use {{#each}} or the json filter`);
+      }
+      output += node.filters.reduce<unknown>((current, filter) => TEMPLATE_FILTERS[filter](current), value);
+    } else if (node.kind === 'if') {
+      const result = evaluateCondition(node.condition, scope, where) !== node.negate;
+      output += render(result ? node.then : node.otherwise, scope, name);
+    } else {
+      const collection = lookup(node.expression, scope, where);
+      if (collection === undefined || collection === null) {
+        throw new Error(`Undefined variable '${node.expression}' at ${where}`);
+      }
+      if (typeof collection !== 'object') {
+        throw new Error(`'${node.expression}' is not a list or object at ${where}`);
+      }
+      const entries: [string | number, unknown][] = Array.isArray(collection)
+        ? collection.map((item, index) => [index, item])
+        : Object.entries(collection);
+      entries.forEach(([key, value], index) => {
+        const loopScope: Scope = Object.create(scope);
+        if (node.names.length === 2) {
+          loopScope[node.names[0]] = key;
+          loopScope[node.names[1]] = value;
+        } else {
+          loopScope[node.names[0]] = value;
+        }
+        loopScope.loop = { index, first: index === 0, last: index === entries.length - 1 };
+        output += render(node.body, loopScope, name);
+      });
+    }
+  }
+  return output;
+}
+
+/**
+ * Render a template. name identifies the template in error messages.
+ */
+export function renderTemplate(template: string, context: TemplateContext, name = 'template'): string {
+  return render(parse(tokenize(template), name), Object.assign(Object.create(null), context), name);
+}
+
+/**
+ * Template variables for an extracted component
+ */
+export function templateContext(result: ExtractedConfig): TemplateContext {
+  const env = result.envVars;
+  return {
+    deployment: result.deployment || ({} as TemplateContext['deployment']),
+    env,
+    system: { systemId: result.systemId, systemType: result.systemType },
+    component: { componentId: result.componentId, componentType: result.componentType, endpoint: result.endpoint },
+    config: {
+      environment: env.INFRA_ENVIRONMENT,
+      version: env.INFRA_CONFIG_VERSION ? Number(env.INFRA_CONFIG_VERSION) : undefined,
+      contentHash: env.INFRA_CONFIG_HASH
+    }
+  };
+}
@@ -0,0 +1,297 @@
+/**
+ * Service Topology
+ *
+ * Builds the dependency graph between components from the service URLs in
+ * their deployment config and checks that each URL points where it should:
+ *
+ *   apiBaseUrl               -> the AGENT of the same system
+ *   <service>BaseUrl         -> the AGENT of system <service> (infraIamBaseUrl -> infra-iam)
+ *   moduleApiBaseUrls.<name> -> the AGENT of system infra-<name>
+ *   moduleUrls.<name>        -> the WEB of system infra-<name>
+ *
+ * A URL resolves to the component whose endpoint has the same scheme, host
+ * and port. Other *Url fields that match no endpoint (NATS, Redis, third
+ * party APIs) are external dependencies.
+ */
+
+import { InfraConfig, DeploymentConfig, ValidationIssue, Topology, TopologyNode, TopologyEdge, GraphFormat } from './types';
+
+export const GRAPH_FORMATS: GraphFormat[] = ['dot', 'mermaid'];
+
+const DEFAULT_PORTS: Record<string, string> = { 'http:': '80', 'https:': '443' };
+
+const TOPOLOGY_RULE_IDS: Record<TopologyEdge['status'], string> = {
+  ok: '',
+  external: '',
+  dangling: 'topology/dangling-url',
+  mismatch: 'topology/mismatched-url',
+  'disabled-target': 'topology/disabled-target'
+};
+
+// URL fields that are not service dependencies
+const IGNORED_URL_FIELDS = ['oidcRedirectUri', 'bootstrapOidcRedirectUris', 'oidcIssuer'];
+
+interface Expected {
+  systemId: string;
+  componentType: 'AGENT' | 'WEB';
+}
+
+/**
+ * scheme://host:port of a URL, credentials and path dropped
+ */
+function originOf(url: string): string | undefined {
+  try {
+    const parsed = new URL(url);
+    const port = parsed.port || DEFAULT_PORTS[parsed.protocol] || '';
+    return `${parsed.protocol}//${parsed.hostname}${port ? `:${port}` : ''}`.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+function stripCredentials(url: string): string {
+  return url.replace(/^([a-z][a-z0-9+.-]*:\/\/)[^\/@]*@/i, '$1');
+}
+
+function toSystemId(service: string): string {
+  return service.replace(/([A-Z])/g, '-$1').toLowerCase();
+}
+
+function expectedTarget(config: InfraConfig, systemId: string, field: string): Expected | undefined {
+  const systemExists = (id: string) => config.systems.some(system => system?.systemId === id);
+
+  if (field === 'apiBaseUrl') {
+    return { systemId, componentType: 'AGENT' };
+  }
+  const module = field.match(/^(moduleUrls|moduleApiBaseUrls)\.(\w+)$/);
+  if (module) {
+    const target = `infra-${toSystemId(module[2])}`;
+    return systemExists(target) ? { systemId: target, componentType: module[1] === 'moduleUrls' ? 'WEB' : 'AGENT' } : undefined;
+  }
+  const service = field.match(/^(\w+)BaseUrl$/);
+  if (service && systemExists(toSystemId(service[1]))) {
+    return { systemId: toSystemId(service[1]), componentType: 'AGENT' };
+  }
+  return undefined;
+}
+
+/**
+ * Service URL fields of a deployment, with moduleUrls / moduleApiBaseUrls expanded
+ */
+export function urlFields(deployment: DeploymentConfig | undefined): [string, string][] {
+  const fields: [string, string][] = [];
+  for (const [key, value] of Object.entries(deployment || {})) {
+    if (IGNORED_URL_FIELDS.includes(key)) {
+      continue;
+    }
+    if ((key === 'moduleUrls' || key === 'moduleApiBaseUrls') && value && typeof value === 'object') {
+      for (const [name, url] of Object.entries(value)) {
+        if (typeof url === 'string') {
+          fields.push([`${key}.${name}`, url]);
+        }
+      }
+    } else if (/Url$/.test(key) && typeof value === 'string') {
+      fields.push([key, value]);
+    }
+  }
+  return fields;
+}
+
+/**
+ * Build the topology of a configuration with references already resolved
+ */
+export function buildTopology(config: InfraConfig): Topology {
+  const nodes: TopologyNode[] = [];
+  const edges: TopologyEdge[] = [];
+  const byOrigin = new Map<string, TopologyNode[]>();
+
+  for (const system of config.systems || []) {
+    for (const component of system?.components || []) {
+      if (!component) {
+        continue;
+      }
+      const node: TopologyNode = {
+        id: `${system.systemId}/${component.componentId}`,
+        systemId: system.systemId,
+        componentId: component.componentId,
+        componentType: component.componentType,
+        endpoint: component.endpoint,
+        enabled: component.enabled !== false,
+        external: false
+      };
+      nodes.push(node);
+      const origin = component.endpoint ? originOf(component.endpoint) : undefined;
+      if (origin) {
+        byOrigin.set(origin, [...(byOrigin.get(origin) || []), node]);
+      }
+    }
+  }
+
+  (config.systems || []).forEach((system, sysIndex) => {
+    (system?.components || []).forEach((component, compIndex) => {
+      if (!component) {
+        return;
+      }
+      const from = `${system.systemId}/${component.componentId}`;
+
+      for (const [field, url] of urlFields(component.deployment)) {
+        if (url.trim() === '') {
+          continue;
+        }
+        const edge: TopologyEdge = {
+          from,
+          field,
+          path: `systems[${sysIndex}].components[${compIndex}].deployment.${field}`,
+          url: stripCredentials(url),
+          status: 'ok'
+        };
+        const expected = expectedTarget(config, system.systemId, field);
+        const origin = originOf(url);
+        const candidates = origin ? byOrigin.get(origin) || [] : [];
+        const target = candidates.find(node => node.enabled) || candidates[0];
+
+        if (!target) {
+          if (expected) {
+            const expectedNode = nodes.find(node => node.systemId === expected.systemId && node.componentType === expected.componentType);
+            edge.status = 'dangling';
+            edge.message = expectedNode?.endpoint
+              ? `URL does not match any component endpoint. Expected ${expectedNode.endpoint} (${expectedNode.id})`
+              : `URL does not match any component endpoint (no ${expected.componentType} in ${expected.systemId} has an endpoint)`;
+          } else {
+            edge.status = 'external';
+            edge.to = origin || edge.url;
+          }
+          edges.push(edge);
+          continue;
+        }
+
+        edge.to = target.id;
+        if (target.id === from && field !== 'apiBaseUrl') {
+          // A component referring to itself is not a dependency
+          continue;
+        }
+        if (expected && (target.systemId !== expected.systemId || target.componentType !== expected.componentType)) {
+          edge.status = 'mismatch';
+          edge.message = `Points at ${target.id}, expected the ${expected.componentType} of ${expected.systemId}`;
+        } else if (!target.enabled) {
+          edge.status = 'disabled-target';
+          edge.message = `Points at ${target.id}, which is disabled`;
+        }
+        edges.push(edge);
+      }
+    });
+  });
+
+  for (const edge of edges) {
+    if (edge.status === 'external' && !nodes.some(node => node.id === edge.to)) {
+      nodes.push({ id: edge.to!, enabled: true, external: true });
+    }
+  }
+
+  return { nodes, edges };
+}
+
+/**
+ * Validation issues for dangling, mismatched and disabled URL targets.
+ * URLs of disabled components are not checked.
+ */
+export function checkTopology(topology: Topology): ValidationIssue[] {
+  const disabled = new Set(topology.nodes.filter(node => !node.enabled).map(node => node.id));
+  return topology.edges
+    .filter(edge => edge.message && !disabled.has(edge.from))
+    .map(edge => ({ ruleId: TOPOLOGY_RULE_IDS[edge.status], severity: 'warning' as const, path: edge.path, message: edge.message! }));
+}
+
+/**
+ * Node drawn for the URL of a dangling edge, which has no target node
+ */
+function danglingTarget(edge: TopologyEdge): { id: string; label: string } {
+  const label = originOf(edge.url) || edge.url;
+  return { id: `dangling:${label}`, label };
+}
+
+function mermaidId(id: string): string {
+  return id.replace(/[^A-Za-z0-9_]/g, '_');
+}
+
+function formatDot(topology: Topology): string {
+  const lines = ['digraph infra {', '  rankdir=LR;', '  node [shape=box];'];
+  const systems = [...new Set(topology.nodes.filter(node => !node.external).map(node => node.systemId!))];
+
+  systems.forEach((systemId, index) => {
+    lines.push(`  subgraph cluster_${index} {`, `    label=${JSON.stringify(systemId)};`);
+    for (const node of topology.nodes.filter(n => n.systemId === systemId)) {
+      const style = node.enabled ? '' : ', style=dashed';
+      lines.push(`    ${JSON.stringify(node.id)} [label=${JSON.stringify(`${node.componentId}\n${node.componentType}`)}${style}];`);
+    }
+    lines.push('  }');
+  });
+  for (const node of topology.nodes.filter(n => n.external)) {
+    lines.push(`  ${JSON.stringify(node.id)} [shape=ellipse, style=dashed];`);
+  }
+  const dangling = new Map(topology.edges.filter(edge => !edge.to).map(edge => {
+    const target = danglingTarget(edge);
+    return [target.id, target.label];
+  }));
+  for (const [id, label] of dangling) {
+    lines.push(`  ${JSON.stringify(id)} [label=${JSON.stringify(label)}, shape=ellipse, style=dashed, color=red];`);
+  }
+  for (const edge of topology.edges) {
+    const style = edge.status === 'ok' || edge.status === 'external' ? '' : ', color=red';
+    lines.push(`  ${JSON.stringify(edge.from)} -> ${JSON.stringify(edge.to || danglingTarget(edge).id)} [label=${JSON.stringify(edge.field)}${style}];`);
+  }
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+function formatMermaid(topology: Topology): string {
+  const lines = ['graph LR'];
+  const systems = [...new Set(topology.nodes.filter(node => !node.external).map(node => node.systemId!))];
+
+  for (const systemId of systems) {
+    lines.push(`  subgraph ${mermaidId(systemId)}["${systemId}"]`);
+    for (const node of topology.nodes.filter(n => n.systemId === systemId)) {
+      const label = `${node.componentId}<br/>${node.componentType}${node.enabled ? '' : ' (disabled)'}`;
+      lines.push(`    ${mermaidId(node.id)}["${label}"]`);
+    }
+    lines.push('  end');
+  }
+  for (const node of topology.nodes.filter(n => n.external)) {
+    lines.push(`  ${mermaidId(node.id)}(["${node.id}"])`);
+  }
+  const dangling = new Map(topology.edges.filter(edge => !edge.to).map(edge => {
+    const target = danglingTarget(edge);
+    return [mermaidId(target.id), target.label];
+  }));
+  for (const [id, label] of dangling) {
+    lines.push(`  ${id}(["${label}"])`);
+  }
+  if (dangling.size > 0) {
+    lines.push('  classDef dangling stroke:red,stroke-dasharray:4', `  class ${[...dangling.keys()].join(',')} dangling`);
+  }
+  const problems: number[] = [];
+  topology.edges.forEach((edge, index) => {
+    lines.push(`  ${mermaidId(edge.from)} -->|${edge.field}| ${mermaidId(edge.to || danglingTarget(edge).id)}`);
+    if (edge.status !== 'ok' && edge.status !== 'external') {
+      problems.push(index);
+    }
+  });
+  if (problems.length > 0) {
+    lines.push(`  linkStyle ${problems.join(',')} stroke:red`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Render the topology as a Graphviz DOT or Mermaid graph
+ */
+export function formatTopology(topology: Topology, format: GraphFormat = 'dot'): string {
+  switch (format) {
+    case 'dot':
+      return formatDot(topology);
+    case 'mermaid':
+      return formatMermaid(topology);
+    default:
+      throw new Error(`Unknown graph format '${format}'. Must be one of: ${GRAPH_FORMATS.join(', ')}`);
+  }
+}
@@ -6,6 +6,7 @@
  */
 
 export interface InfraConfig {
+  $schema?: string;  // Path or URL of infra-config.schema.json, for editor support
   schemaVersion: string;
   environment: string;
   version?: number;
@@ -16,6 +17,7 @@ export interface InfraConfig {
   };
   promotedAtUtc?: string;
   systems: System[];
+  envMappings?: EnvMapping[];  // Environment variable mapping for all or selected components
   installerInputs?: any; // Legacy field, not used by extractor
   contentHash?: string;
 }
@@ -32,6 +34,42 @@ export interface Component {
   endpoint?: string;
   enabled?: boolean;
   deployment: DeploymentConfig;
+  waivers?: PolicyWaiver[];  // Accepted environment policy violations
+  envMapping?: EnvMapping;   // Applied after the config-level envMappings
+}
+
+/**
+ * Accepted violation of an environment policy, e.g. corsOrigin "*" until the
+ * partner portal moves to its own domain
+ */
+export interface PolicyWaiver {
+  ruleId: string;    // e.g. policy/cors-wildcard
+  field?: string;    // Only this deployment field (or endpoint); default: all
+  reason: string;
+  expires: string;   // YYYY-MM-DD, last day the waiver applies
+}
+
+/**
+ * How deployment fields become environment variables. Mappings are applied
+ * on top of DEFAULT_ENV_MAPPING; for rename, aliases, derived and flatten a
+ * later mapping replaces the entries with the same key.
+ */
+export interface EnvMapping {
+  systemTypes?: string[];     // Only for these system types (config-level mappings)
+  componentTypes?: Component['componentType'][];  // Only for these component types (config-level mappings)
+  prefix?: string;            // Prepended to names generated from field names, e.g. VITE_
+  rename?: Record<string, string>;    // Field → variable name, instead of SCREAMING_SNAKE_CASE
+  aliases?: Record<string, string[]>; // Field → extra variables with the value of its variable
+  derived?: Record<string, string>;   // Variable → template; {field} is URL-encoded, {raw:field} is not
+  flatten?: Record<string, string>;   // Object field → pattern with {KEY} per entry, or "json"
+}
+
+/**
+ * Environment variables produced by an EnvMapping
+ */
+export interface MappedEnvVars {
+  envVars: Record<string, string>;
+  secretKeys: string[];  // Variables holding secret values (secret fields, their aliases, derived values using them)
 }
 
 /**
@@ -178,6 +216,185 @@ export interface DeploymentConfig {
   appVersion?: string;
 }
 
+/**
+ * Fields required, optional and forbidden for one component type of a system type.
+ * Fields not listed are allowed.
+ */
+export interface ComponentProfile {
+  required?: (keyof DeploymentConfig)[];
+  requiredOneOf?: (keyof DeploymentConfig)[][];  // At least one field of each group
+  optional?: (keyof DeploymentConfig)[];
+  forbidden?: (keyof DeploymentConfig)[];
+}
+
+/**
+ * Deployment profile of a system type (see profiles.ts)
+ */
+export interface SystemProfile {
+  systemType: string;
+  description?: string;
+  components: Partial<Record<Component['componentType'], ComponentProfile>>;
+}
+
+/*
+ * Typed deployments per systemType, mirroring the built-in profiles.
+ * After isProfiledSystem(), narrowing on systemType types the deployments:
+ *
+ *   if (isProfiledSystem(system) && system.systemType === 'IAM') system.components[0].deployment.mfaEncKey
+ */
+
+type Forbid<T, K extends keyof DeploymentConfig> = T extends unknown ? Omit<T, K> & { [P in K]?: never } : never;
+type RequireFields<T, K extends keyof T> = T & Required<Pick<T, K>>;
+
+// Secrets a browser-served WEB component must never receive
+export type WebForbiddenField =
+  | 'jwtSecret' | 'refreshTokenEncKey' | 'mfaEncKey' | 'scimSharedSecret' | 'dataShareSecret'
+  | 'infraImBearerToken' | 'bootstrapOidcClientSecret' | 'mariadbPassword' | 'mariadbRootPassword';
+
+// IAM keys and bootstrap settings
+export type IamOnlyField =
+  | 'refreshTokenEncKey' | 'mfaEncKey' | 'scimSharedSecret' | 'allowDevAdminSeed'
+  | 'bootstrapOidcClientId' | 'bootstrapOidcRedirectUris' | 'bootstrapOidcAllowedScopes' | 'bootstrapOidcClientSecret';
+
+// Module URLs are only used by IM
+export type ImOnlyField = 'moduleUrls' | 'moduleApiBaseUrls';
+
+// Verifies JWTs with a shared secret or a public key
+type JwtVerifier = RequireFields<DeploymentConfig, 'jwtSecret'> | RequireFields<DeploymentConfig, 'jwtPublicKeyPath'>;
+
+export type WebDeployment = Forbid<DeploymentConfig, WebForbiddenField | IamOnlyField>;
+export type IamAgentDeployment = Forbid<RequireFields<DeploymentConfig, 'jwtSecret' | 'refreshTokenEncKey' | 'mfaEncKey' | 'oidcIssuer'>, ImOnlyField | 'infraIamBaseUrl'>;
+export type IamWebDeployment = Forbid<WebDeployment, ImOnlyField>;
+export type ImAgentDeployment = Forbid<DeploymentConfig, IamOnlyField>;
+export type ImWebDeployment = RequireFields<WebDeployment, 'oidcIssuer' | 'oidcClientId' | 'oidcRedirectUri'>;
+export type ConfigAgentDeployment = Forbid<JwtVerifier, IamOnlyField | ImOnlyField>;
+export type HubAgentDeployment = Forbid<JwtVerifier & RequireFields<DeploymentConfig, 'natsUrl'>, IamOnlyField | ImOnlyField>;
+export type ServiceAgentDeployment = Forbid<DeploymentConfig, IamOnlyField | ImOnlyField>;
+export type ServiceWebDeployment = Forbid<WebDeployment, ImOnlyField>;
+
+export interface TypedComponent<T extends Component['componentType'], D> extends Omit<Component, 'componentType' | 'deployment'> {
+  componentType: T;
+  deployment: D;
+}
+
+export interface TypedSystem<S extends string, A, W> extends Omit<System, 'systemType' | 'components'> {
+  systemType: S;
+  components: (TypedComponent<'AGENT', A> | TypedComponent<'WEB', W>)[];
+}
+
+export type IamSystem = TypedSystem<'IAM', IamAgentDeployment, IamWebDeployment>;
+export type ImSystem = TypedSystem<'IM', ImAgentDeployment, ImWebDeployment>;
+export type ConfigSystem = TypedSystem<'CONFIG', ConfigAgentDeployment, ServiceWebDeployment>;
+export type SecuritySystem = TypedSystem<'SECURITY', ServiceAgentDeployment, ServiceWebDeployment>;
+export type HubSystem = TypedSystem<'HUB', HubAgentDeployment, ServiceWebDeployment>;
+export type ErpSystem = TypedSystem<'ERP', ServiceAgentDeployment, ServiceWebDeployment>;
+
+/**
+ * Systems with a built-in profile, discriminated by systemType
+ */
+export type ProfiledSystem = IamSystem | ImSystem | ConfigSystem | SecuritySystem | HubSystem | ErpSystem;
+
+/**
+ * Overlay directives for systems, components and nested objects
+ */
+export interface OverlayDirectives {
+  $delete?: boolean;   // Remove the matching system/component
+  $replace?: boolean;  // Replace instead of deep-merging
+}
+
+/**
+ * Partial configuration applied on top of a base infra-config.json.
+ * Systems match by systemId, components by componentId; null deletes a field.
+ */
+export interface InfraConfigOverlay extends Partial<Omit<InfraConfig, 'systems'>> {
+  systems?: SystemOverlay[];
+}
+
+export interface SystemOverlay extends OverlayDirectives, Partial<Omit<System, 'components'>> {
+  systemId: string;
+  components?: ComponentOverlay[];
+}
+
+export interface ComponentOverlay extends OverlayDirectives, Partial<Omit<Component, 'deployment'>> {
+  componentId: string;
+  deployment?: { [K in keyof DeploymentConfig]?: DeploymentConfig[K] | null } & OverlayDirectives;
+}
+
+/**
+ * An issue reported by validate()
+ */
+export interface ValidationIssue {
+  ruleId: string;       // Stable identifier, e.g. schema/required, secret/reused
+  severity: 'error' | 'warning' | 'info';
+  path: string;
+  message: string;
+  schemaPath?: string;  // Schema location for structural issues
+}
+
+/**
+ * Result of validate()
+ */
+export interface ValidationResult {
+  valid: boolean;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Output formats supported by validate-config
+ */
+export type ValidationOutputFormat = 'text' | 'json' | 'sarif' | 'junit';
+
+/**
+ * How validate-config turns issues into an exit code
+ */
+export interface ValidationExitOptions {
+  strict?: boolean;       // Fail on any warning
+  maxWarnings?: number;   // Fail when there are more warnings than this
+}
+
+/**
+ * The JSON Schema keywords infra-config.schema.json uses (see schema.ts)
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $ref?: string;                    // Local only, e.g. #/$defs/System
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  deprecated?: boolean;
+  type?: string | string[];
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  pattern?: string;
+}
+
+/**
+ * A structural problem found by the schema validator
+ */
+export interface SchemaIssue {
+  path: string;        // Instance path, e.g. systems[0].components[1].deployment.port
+  schemaPath: string;  // e.g. #/$defs/DeploymentConfig/properties/port/anyOf
+  keyword: string;
+  message: string;
+}
+
+/**
+ * A ${ref:...} reference that could not be resolved
+ */
+export interface ReferenceIssue {
+  path: string;         // e.g. systems[0].components[1].deployment.apiBaseUrl
+  systemId: string;
+  componentId: string;
+  message: string;
+}
+
 /**
  * Result of configuration extraction
  */
@@ -188,9 +405,82 @@ export interface ExtractedConfig {
   componentType: string;
   endpoint?: string;
   envVars: Record<string, string>;
+  secretKeys: string[];  // envVars keys holding secrets
+  warnings: string[];
+  deployment?: DeploymentConfig;  // Deployment block with secrets decrypted and resolved
+}
+
+/**
+ * Options for extracting every component at once
+ */
+export interface ExtractAllOptions extends Omit<ExtractOptions, 'componentId' | 'systemId' | 'outputPath'> {
+  outputDir: string;
+  systemId?: string;         // Only this system; default: every system
+  pattern?: string;          // Default: {systemId}/{componentId}.{ext}
+  format?: OutputFormat;     // Default: dotenv
+  includeDisabled?: boolean; // Also extract components with enabled: false
+}
+
+/**
+ * One component in an extraction manifest
+ */
+export interface ExtractManifestEntry {
+  systemId: string;
+  componentId: string;
+  componentType: string;
+  status: 'generated' | 'skipped' | 'failed';
+  file?: string;     // Relative to outputDir
+  error?: string;
   warnings: string[];
 }
 
+/**
+ * manifest.json written by extractAll
+ */
+export interface ExtractManifest {
+  generatedAtUtc: string;
+  configPath: string;
+  overlayPaths: string[];
+  environment: string;
+  contentHash: string;
+  format: OutputFormat;
+  components: ExtractManifestEntry[];
+}
+
+/**
+ * Options for the runtime configuration client
+ */
+export interface ClientOptions {
+  configPath?: string;       // Local infra-config.json (or use configUrl)
+  configUrl?: string;        // HTTP endpoint returning infra-config.json
+  headers?: Record<string, string>;  // Extra request headers for configUrl (e.g. authorization)
+  overlayPaths?: string[];
+  componentId?: string;      // Optional - will auto-discover
+  systemId?: string;
+  pollIntervalMs?: number;   // Default: deployment.configPollingInterval
+  watch?: boolean;           // Default: true - poll for changes
+  skipHashCheck?: boolean;
+  secretResolvers?: SecretResolver[];
+  encryptionKeyPath?: string;  // AES-256 key for enc:v1: values (default: $INFRA_CONFIG_KEY)
+}
+
+/**
+ * Payload of the client's 'change' event
+ */
+export interface ConfigChangeEvent {
+  changedKeys: (keyof DeploymentConfig)[];
+  added: string[];
+  removed: string[];
+  modified: string[];
+  previous: Readonly<DeploymentConfig>;
+  current: Readonly<DeploymentConfig>;
+}
+
+/**
+ * Output formats supported by extract-config
+ */
+export type OutputFormat = 'dotenv' | 'shell' | 'json' | 'k8s' | 'systemd';
+
 /**
  * Options for configuration extraction
  */
@@ -200,4 +490,415 @@ export interface ExtractOptions {
   systemId?: string;     // Optional - will auto-discover
   outputPath?: string;   // Optional - for writing .env file
   validateOnly?: boolean;  // Only validate, don't extract
+  overlayPaths?: string[];  // Optional - overlay files applied in order on top of configPath
+  skipHashCheck?: boolean;  // Don't fail on contentHash mismatch
+  secretResolvers?: SecretResolver[];  // Optional - extra or overriding ${scheme:...} resolvers
+  rules?: ValidationRule[];  // Optional - additional rules; errors abort extraction
+  policyPack?: string;  // Optional - policy pack name instead of the one selected by environment
+  trustedKeys?: string[];  // Optional - Ed25519 public key files; every config file needs a valid <file>.sig
+  encryptionKeyPath?: string;  // Optional - AES-256 key file for enc:v1: values (default: $INFRA_CONFIG_KEY)
+}
+
+/**
+ * Options for configuration validation
+ */
+export interface ValidateOptions {
+  overlayPaths?: string[];  // Optional - overlay files applied in order on top of configPath
+  skipHashCheck?: boolean;  // Report contentHash mismatch as a warning instead of an error
+  rules?: ValidationRule[];  // Optional - additional rules, see loadRules()
+  policyPack?: string;  // Optional - policy pack name instead of the one selected by environment
+  trustedKeys?: string[];  // Optional - Ed25519 public key files; every config file needs a valid <file>.sig
+}
+
+/**
+ * Kind of credential a secret DeploymentConfig field holds
+ */
+export type SecretKind = 'password' | 'token' | 'shared-secret' | 'encryption-key' | 'private-key';
+
+/**
+ * Context passed to secret resolvers
+ */
+export interface SecretResolverContext {
+  baseDir: string;  // Directory containing infra-config.json
+}
+
+/**
+ * Resolves ${scheme:reference} values in deployment configuration
+ */
+export interface SecretResolver {
+  scheme: string;
+  resolve(reference: string, context: SecretResolverContext): string;
+}
+
+/**
+ * Lifecycle status of a configuration file, managed by promote-config
+ */
+export type ConfigStatus = 'DRAFT' | 'CURRENT' | 'SUPERSEDED';
+
+/**
+ * Options for promoteConfig() and rollbackConfig()
+ */
+export interface PromoteOptions extends Pick<ValidateOptions, 'rules' | 'policyPack'> {
+  outputPath?: string;   // CURRENT file to replace (default: the promoted file itself)
+  historyDir?: string;   // Default: .infra-config-history next to outputPath
+  now?: Date;            // Promotion time (default: now)
+}
+
+/**
+ * A promoted version kept in the history directory
+ */
+export interface ConfigHistoryEntry {
+  version: number;
+  status: string;
+  promotedAtUtc?: string;
+  contentHash?: string;
+  file: string;
+}
+
+/**
+ * Outcome of a promotion or rollback
+ */
+export interface PromotionResult {
+  config: InfraConfig;       // The new CURRENT configuration
+  version: number;
+  previousVersion?: number;  // Version marked SUPERSEDED, if there was one
+  outputPath: string;
+  historyFile: string;
+  warnings: ValidationIssue[];
+}
+
+/**
+ * Options for migrate-config
+ */
+export interface MigrateOptions {
+  onConflict?: 'fail' | 'keep-new' | 'keep-old';  // Both deprecated and standard field set with different values (default: fail)
+}
+
+/**
+ * A schemaVersion migration step, registered with registerMigration()
+ */
+export interface SchemaMigration {
+  from: string;
+  to: string;
+  description: string;
+  migrate(config: InfraConfig): MigrationChange[] | void;  // Mutates config in place
+}
+
+/**
+ * One rewrite performed by a migration
+ */
+export interface MigrationChange {
+  path: string;
+  description: string;
+}
+
+/**
+ * Deprecated and standard field both present with different values
+ */
+export interface MigrationConflict {
+  path: string;
+  oldField: string;
+  newField: string;
+}
+
+/**
+ * Result of migrateConfig
+ */
+export interface MigrationResult {
+  config: InfraConfig;
+  fromVersion: string;
+  toVersion: string;
+  changes: MigrationChange[];
+  conflicts: MigrationConflict[];
+}
+
+/**
+ * Options for diffConfigs
+ */
+export interface DiffOptions {
+  showSecrets?: boolean;  // Default: false - secret values are masked
+}
+
+/**
+ * A single field or env var that differs between two configs
+ */
+export interface FieldChange {
+  field: string;
+  change: 'added' | 'removed' | 'modified';
+  before?: unknown;
+  after?: unknown;
+  secret: boolean;
+}
+
+/**
+ * Changes to one component between two configs
+ */
+export interface ComponentDiff {
+  systemId: string;
+  componentId: string;
+  status: 'added' | 'removed' | 'modified';
+  fieldChanges: FieldChange[];  // Component fields and deployment.* fields
+  envChanges: FieldChange[];    // Resulting environment variables (metadata excluded)
+  envIssues?: string[];         // Mapping problems the new version introduces, e.g. duplicate names
+}
+
+/**
+ * Semantic difference between two infra-config versions
+ */
+export interface ConfigDiff {
+  identical: boolean;
+  topLevelChanges: FieldChange[];  // schemaVersion, environment, version, ...
+  systemsAdded: string[];
+  systemsRemoved: string[];
+  components: ComponentDiff[];
+}
+
+/**
+ * A component (or external host) in the service topology
+ */
+export interface TopologyNode {
+  id: string;              // systemId/componentId, or the URL origin for external hosts
+  systemId?: string;
+  componentId?: string;
+  componentType?: 'AGENT' | 'WEB';
+  endpoint?: string;
+  enabled: boolean;
+  external: boolean;
+}
+
+/**
+ * A service URL in one component's deployment and the component it resolves to
+ */
+export interface TopologyEdge {
+  from: string;            // Node id of the component holding the URL
+  to?: string;             // Node id of the target, if the URL resolved
+  field: string;           // e.g. infraIamBaseUrl, moduleUrls.iam
+  path: string;            // e.g. systems[0].components[1].deployment.apiBaseUrl
+  url: string;
+  status: 'ok' | 'external' | 'dangling' | 'mismatch' | 'disabled-target';
+  message?: string;
+}
+
+/**
+ * Dependency graph between components, built from their service URLs
+ */
+export interface Topology {
+  nodes: TopologyNode[];
+  edges: TopologyEdge[];
+}
+
+/**
+ * Output formats supported by graph-config
+ */
+export type GraphFormat = 'dot' | 'mermaid';
+
+/**
+ * What a rule's check() receives besides the component
+ */
+export interface RuleContext {
+  config: InfraConfig;   // Whole configuration, references resolved
+  system: System;
+  path: string;          // e.g. systems[0].components[1]
+}
+
+/**
+ * A problem reported by a rule. ruleId and severity default to the rule's;
+ * path defaults to the deployment field, or to the component.
+ */
+export interface RuleFinding {
+  message: string;
+  field?: string;        // DeploymentConfig field the finding is about
+  path?: string;
+  severity?: ValidationIssue['severity'];
+}
+
+/**
+ * A validation rule contributed by a team or plugin
+ */
+export interface ValidationRule {
+  id: string;                          // e.g. iam/oidc-issuer
+  description?: string;
+  severity?: ValidationIssue['severity'];  // Default: error
+  systemTypes?: string[];              // Default: all system types
+  componentTypes?: Component['componentType'][];  // Default: all component types
+  check(component: Component, context: RuleContext): RuleFinding[];
+}
+
+/**
+ * A rule written as data in a rules file
+ */
+export interface DeclarativeRule extends Omit<ValidationRule, 'check'> {
+  requiredFields?: string[];
+  forbiddenFields?: string[];
+}
+
+/**
+ * Rules file (JSON): declarative rules plus modules exporting ValidationRule[]
+ */
+export interface RulesFile {
+  plugins?: string[];     // Module paths (relative to the rules file) or npm package names
+  rules?: DeclarativeRule[];
+}
+
+/**
+ * Named set of policy severities, selected by InfraConfig.environment
+ */
+export interface PolicyPack {
+  name: string;                  // e.g. prod
+  description?: string;
+  environments: string[];        // environment values selecting this pack (case-insensitive)
+  severities: Record<string, ValidationIssue['severity']>;  // Policy ID -> severity; unlisted policies are off
+}
+
+/**
+ * Detached signature of a configuration file (<file>.sig)
+ */
+export interface ConfigSignature {
+  algorithm: string;     // ed25519
+  keyId: string;         // sha256:<hex> of the DER-encoded public key
+  contentHash: string;   // contentHash of the signed content, for reference
+  signedAtUtc: string;
+  signature: string;     // base64
+}
+
+/**
+ * Result of verifying a signature
+ */
+export interface SignatureCheck {
+  status: 'valid' | 'missing' | 'invalid' | 'untrusted';
+  keyId?: string;
+  message: string;
+}
+
+/**
+ * Result of encrypting or re-encrypting the values of a configuration
+ */
+export interface EncryptConfigResult<T> {
+  config: T;
+  fields: string[];  // Paths of the encrypted values, e.g. systems[0].components[1].deployment.jwtSecret
+}
+
+/**
+ * A variable import-env could not map one to one
+ */
+export interface ImportEnvIssue {
+  variable: string;
+  kind: 'unknown' | 'legacy' | 'invalid' | 'ignored';
+  message: string;
+}
+
+/**
+ * Options for import-env
+ */
+export interface ImportEnvOptions {
+  componentId?: string;                  // Default: COMPONENT_ID from the imported variables
+  componentType?: Component['componentType'];  // Default: COMPONENT_TYPE from the imported variables, else AGENT
+  service?: string;                      // docker-compose service (required when the file has several)
+  configPath?: string;                   // infra-config.json to insert the component into
+  systemId?: string;                     // System to insert into (required with configPath)
+}
+
+/**
+ * Result of import-env
+ */
+export interface ImportEnvResult {
+  component: Component;
+  issues: ImportEnvIssue[];
+  config?: InfraConfig;  // Updated config when configPath was given
+}
+
+/**
+ * Variables available to render-template templates
+ */
+export interface TemplateContext {
+  deployment: DeploymentConfig;       // Secrets decrypted and resolved
+  env: Record<string, string>;        // ExtractedConfig.envVars
+  system: { systemId: string; systemType: string };
+  component: { componentId: string; componentType: string; endpoint?: string };
+  config: { environment?: string; version?: number; contentHash: string };
+}
+
+/**
+ * Options for generate-compose
+ */
+export interface ComposeOptions {
+  systemId?: string;          // Only this system; default: every system
+  envDir?: string;            // Env files from extract-config --all, relative to the compose file (default: env)
+  imagePattern?: string;      // Default: {componentId}:latest
+  healthCheckPath?: string;   // Default: /health
+  includeDisabled?: boolean;  // Also add components with enabled: false
+}
+
+/**
+ * One service of a generated docker-compose.yml
+ */
+export interface ComposeService {
+  image: string;
+  container_name?: string;
+  command?: string[];
+  env_file?: string[];
+  environment?: Record<string, string>;
+  ports?: string[];
+  volumes?: string[];
+  networks?: string[];
+  extra_hosts?: string[];
+  depends_on?: Record<string, { condition: 'service_started' | 'service_healthy' }>;
+  healthcheck?: { test: string[]; interval: string; timeout: string; retries: number };
+  restart: string;
+}
+
+/**
+ * A generated docker-compose.yml
+ */
+export interface ComposeFile {
+  services: Record<string, ComposeService>;
+  networks?: Record<string, { name: string }>;
+  volumes?: Record<string, Record<string, never>>;
+}
+
+/**
+ * Result of generateCompose
+ */
+export interface ComposeResult {
+  compose: ComposeFile;
+  warnings: string[];
+}
+
+export type ConnectivityFormat = 'text' | 'json';
+
+/**
+ * Options for check-connectivity; the component is extracted like extract-config does
+ */
+export interface ConnectivityOptions extends ExtractOptions {
+  timeoutMs?: number;  // Per probe (default: 3000)
+}
+
+/**
+ * A dependency of a component and how to probe it
+ */
+export interface ConnectivityTarget {
+  dependency: string;  // Deployment field, e.g. mariadbHost, natsUrl, moduleApiBaseUrls.iam
+  protocol: 'tcp' | 'http';
+  host: string;
+  port: number;
+  url?: string;        // HTTP probes; credentials removed
+}
+
+/**
+ * Outcome of one probe
+ */
+export interface ConnectivityResult extends ConnectivityTarget {
+  status: 'ok' | 'failed';
+  latencyMs?: number;
+  httpStatus?: number;
+  error?: string;
+}
+
+/**
+ * Result of check-connectivity for one component
+ */
+export interface ConnectivityReport {
+  systemId: string;
+  componentId: string;
+  results: ConnectivityResult[];
 }
@@ -0,0 +1,64 @@
+/**
+ * Minimal YAML emitter for generated manifests
+ *
+ * Strings are always written as JSON-style double-quoted scalars, which are
+ * valid YAML and need no further escaping rules.
+ */
+
+function formatScalar(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function formatKey(key: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_.\/-]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function isEmptyCollection(value: object): boolean {
+  return Array.isArray(value) ? value.length === 0 : Object.keys(value).length === 0;
+}
+
+function emit(value: object, indent: number): string[] {
+  const pad = '  '.repeat(indent);
+  const lines: string[] = [];
+
+  if (Array.isArray(value)) {
+    for (const item of value as unknown[]) {
+      if (item !== null && typeof item === 'object' && !isEmptyCollection(item)) {
+        const nested = emit(item, indent + 1);
+        lines.push(`${pad}- ${nested[0].trimStart()}`, ...nested.slice(1));
+      } else {
+        lines.push(`${pad}- ${item !== null && typeof item === 'object' ? (Array.isArray(item) ? '[]' : '{}') : formatScalar(item)}`);
+      }
+    }
+    return lines;
+  }
+
+  for (const [key, nested] of Object.entries(value as Record<string, unknown>)) {
+    if (nested === undefined) {
+      continue;
+    }
+    if (nested !== null && typeof nested === 'object') {
+      if (isEmptyCollection(nested)) {
+        lines.push(`${pad}${formatKey(key)}: ${Array.isArray(nested) ? '[]' : '{}'}`);
+      } else {
+        lines.push(`${pad}${formatKey(key)}:`, ...emit(nested, indent + 1));
+      }
+    } else {
+      lines.push(`${pad}${formatKey(key)}: ${formatScalar(nested)}`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Serialize an object of JSON-compatible values to a YAML document
+ */
+export function toYaml(value: object): string {
+  return emit(value, 0).join('\n') + '\n';
+}
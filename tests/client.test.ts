@@ -0,0 +1,115 @@
+import { loadInfraConfig, InfraConfigClient } from '../src/client';
+import { encryptValue } from '../src/encryption';
+import { ConfigChangeEvent, InfraConfig } from '../src/types';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+
+describe('Runtime Config Client', () => {
+  const source: InfraConfig = JSON.parse(fs.readFileSync(path.join(__dirname, 'mocks', 'valid-local.json'), 'utf-8'));
+  let dir: string;
+  let configPath: string;
+  let client: InfraConfigClient | undefined;
+
+  const writeConfig = (mutate: (config: InfraConfig) => void = () => undefined) => {
+    const config: InfraConfig = JSON.parse(JSON.stringify(source));
+    mutate(config);
+    fs.writeFileSync(configPath, JSON.stringify(config), 'utf-8');
+    return config;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'infraconfig-client-'));
+    configPath = path.join(dir, 'infra-config.json');
+    writeConfig();
+  });
+
+  afterEach(() => {
+    client?.close();
+    client = undefined;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should expose a frozen typed view of the component deployment', async () => {
+    client = await loadInfraConfig({ configPath, componentId: 'test-agent-local', watch: false });
+    expect(client.componentId).toBe('test-agent-local');
+    expect(client.config.port).toBe(3000);
+    expect(Object.isFrozen(client.config)).toBe(true);
+    expect(() => { (client!.config as { port: number }).port = 1; }).toThrow();
+  });
+
+  it('should emit the diff of changed keys on reload', async () => {
+    client = await loadInfraConfig({ configPath, componentId: 'test-agent-local', watch: false });
+    const events: ConfigChangeEvent[] = [];
+    client.on('change', event => events.push(event));
+
+    writeConfig(config => {
+      const deployment = config.systems[0].components[0].deployment;
+      deployment.port = 3001;
+      deployment.logLevel = 'debug';
+      delete deployment.dbLocalUrl;
+    });
+
+    expect(await client.reload()).toBe(true);
+    expect(events).toHaveLength(1);
+    expect(events[0].changedKeys).toEqual(['dbLocalUrl', 'logLevel', 'port']);
+    expect(events[0].added).toEqual(['logLevel']);
+    expect(events[0].removed).toEqual(['dbLocalUrl']);
+    expect(events[0].previous.port).toBe(3000);
+    expect(client.config.port).toBe(3001);
+
+    expect(await client.reload()).toBe(false);
+  });
+
+  it('should decrypt enc:v1: values with the configured key', async () => {
+    const key = crypto.randomBytes(32);
+    const keyPath = path.join(dir, 'infra-config.key');
+    fs.writeFileSync(keyPath, key.toString('base64'), 'utf-8');
+    writeConfig(config => { config.systems[0].components[0].deployment.jwtSecret = encryptValue('s3cret-value', key); });
+
+    client = await loadInfraConfig({ configPath, componentId: 'test-agent-local', watch: false, encryptionKeyPath: keyPath });
+    expect(client.config.jwtSecret).toBe('s3cret-value');
+
+    client.close();
+    await expect(loadInfraConfig({ configPath, componentId: 'test-agent-local', watch: false }))
+      .rejects.toThrow('deployment.jwtSecret is encrypted but no key was given');
+  });
+
+  it('should poll the file at the configured interval', async () => {
+    client = await loadInfraConfig({ configPath, componentId: 'test-agent-local', pollIntervalMs: 20 });
+    const changed = new Promise<ConfigChangeEvent>(resolve => client!.once('change', resolve));
+
+    writeConfig(config => { config.systems[0].components[0].deployment.port = 3002; });
+
+    expect((await changed).changedKeys).toEqual(['port']);
+  });
+
+  it('should load from an HTTP endpoint and honour ETags', async () => {
+    let requests = 0;
+    let notModified = 0;
+    const server = http.createServer((req, res) => {
+      requests++;
+      if (req.headers['if-none-match'] === '"v1"') {
+        notModified++;
+        res.writeHead(304).end();
+        return;
+      }
+      res.writeHead(200, { 'content-type': 'application/json', etag: '"v1"' }).end(JSON.stringify(source));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      client = await loadInfraConfig({ configUrl: `http://127.0.0.1:${port}/config`, watch: false, componentId: 'test-agent-local' });
+      expect(client.config.dbNetworkKey).toBe('primary-db');
+      expect(await client.reload()).toBe(false);
+      expect(requests).toBe(2);
+      expect(notModified).toBe(1);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,78 @@
+import { generateCompose } from '../src/compose';
+import { generateComposeFile } from '../src/bin/generate-compose';
+import { loadConfig } from '../src/overlay';
+import { InfraConfig } from '../src/types';
+import * as path from 'path';
+
+describe('Compose Generation', () => {
+  const configPath = path.join(__dirname, 'mocks', 'valid-compose.json');
+  const config = loadConfig(configPath);
+
+  it('should create a service per enabled component', () => {
+    const { compose, warnings } = generateCompose(config);
+
+    expect(Object.keys(compose.services)).toEqual(['infra-iam-a', 'infra-iam-w', 'infra-im-a', 'mariadb', 'nats', 'cache']);
+    expect(compose.services['infra-iam-a']).toMatchObject({
+      image: 'infra-iam-a:latest',
+      env_file: ['env/infra-iam/infra-iam-a.env'],
+      ports: ['4001:4001', '9101:9101'],
+      networks: ['pharma-network'],
+      healthcheck: { test: ['CMD-SHELL', 'wget -q --spider http://localhost:4001/health || exit 1'], interval: '15s' }
+    });
+    expect(compose.services['infra-iam-w'].container_name).toBe('iam-web');
+    expect(compose.services['infra-im-a'].extra_hosts).toEqual(['host.docker.internal:host-gateway']);
+    expect(compose.networks).toEqual({ 'pharma-network': { name: 'pharma-network' } });
+    expect(warnings).toEqual([]);
+  });
+
+  it('should infer depends_on from service URLs and shared dependencies', () => {
+    const { compose } = generateCompose(config);
+
+    expect(compose.services['infra-iam-a'].depends_on).toEqual({
+      mariadb: { condition: 'service_healthy' },
+      nats: { condition: 'service_healthy' }
+    });
+    expect(compose.services['infra-iam-w'].depends_on).toEqual({ 'infra-iam-a': { condition: 'service_healthy' } });
+    expect(compose.services['infra-im-a'].depends_on).toEqual({
+      cache: { condition: 'service_healthy' },
+      'infra-iam-a': { condition: 'service_healthy' }
+    });
+    expect(compose.services.mariadb).toMatchObject({ image: 'mariadb:11', networks: ['pharma-network'], volumes: ['mariadb-data:/var/lib/mysql'] });
+    expect(compose.services.cache).toMatchObject({ image: 'redis:7-alpine', volumes: ['cache-data:/data'] });
+    expect(compose.services.cache.networks).toBeUndefined();
+    expect(compose.volumes).toEqual({ 'mariadb-data': {}, 'cache-data': {} });
+  });
+
+  it('should limit the file to one system and apply options', () => {
+    const { compose } = generateCompose(config, { systemId: 'infra-im', imagePattern: 'registry.local/{componentId}:{environment}', envDir: '../env', includeDisabled: true });
+
+    expect(Object.keys(compose.services)).toEqual(['infra-im-a', 'infra-im-legacy', 'cache']);
+    expect(compose.services['infra-im-a'].image).toBe('registry.local/infra-im-a:TEST');
+    expect(compose.services['infra-im-a'].env_file).toEqual(['../env/infra-im/infra-im-a.env']);
+    // infra-iam-a is not in this file
+    expect(compose.services['infra-im-a'].depends_on).toEqual({ cache: { condition: 'service_healthy' } });
+    expect(() => generateCompose(config, { systemId: 'missing' })).toThrow("System 'missing' not found");
+  });
+
+  it('should report port clashes and leave out circular depends_on', () => {
+    const cyclic: InfraConfig = JSON.parse(JSON.stringify(config));
+    cyclic.systems[0].components[0].deployment.infraImBaseUrl = 'http://localhost:4002';
+    cyclic.systems[1].components[0].deployment.metricsPort = 9101;
+
+    const { compose, warnings } = generateCompose(cyclic);
+    expect(warnings).toEqual([
+      'Host port 9101 is published by both infra-iam-a and infra-im-a',
+      'depends_on infra-im-a → infra-iam-a left out; it would create a dependency cycle'
+    ]);
+    expect(compose.services['infra-iam-a'].depends_on).toHaveProperty('infra-im-a');
+    expect(compose.services['infra-im-a'].depends_on).not.toHaveProperty('infra-iam-a');
+  });
+
+  it('should render the compose file as YAML', () => {
+    const { yaml } = generateComposeFile(configPath, { systemId: 'infra-iam' });
+
+    expect(yaml).toContain('# Generated by generate-compose from valid-compose.json; do not edit\nservices:\n  infra-iam-a:\n');
+    expect(yaml).toContain('    depends_on:\n      infra-iam-a:\n        condition: "service_healthy"\n');
+    expect(yaml).toContain('volumes:\n  mariadb-data: {}\n');
+  });
+});
@@ -0,0 +1,63 @@
+import { detectConflicts } from '../src/conflicts';
+import { validate } from '../src/bin/validate-config';
+import { mockConfig } from './mocks/config';
+import * as path from 'path';
+
+const config = () => mockConfig('conflicts-ports.json');
+
+describe('Conflict Detection', () => {
+  it('should accept distinct ports, names and ids', () => {
+    expect(detectConflicts(config())).toEqual([]);
+  });
+
+  it('should report ports bound twice on the same host', () => {
+    const conflicting = config();
+    conflicting.systems[1].components[0].deployment.metricsPort = 9090;
+    conflicting.systems[1].components[0].deployment.natsHttpPort = 4002;
+    // Same port on another host is fine
+    conflicting.systems[1].components[1].deployment.port = 4001;
+    conflicting.systems[1].components[1].endpoint = 'http://10.0.0.2:4001';
+
+    expect(detectConflicts(conflicting)).toEqual([
+      { ruleId: 'conflict/port', severity: 'error', path: 'systems[1].components[0].deployment.metricsPort', message: 'Port 9090 on 10.0.0.1 is already used by infra-iam/infra-iam-a (metricsPort)' },
+      { ruleId: 'conflict/port', severity: 'error', path: 'systems[1].components[0].deployment.natsHttpPort', message: 'Port 4002 on 10.0.0.1 is already used by its own port' }
+    ]);
+  });
+
+  it('should treat localhost and 127.0.0.1 as the same host and ignore disabled components', () => {
+    const local = config();
+    local.systems[0].components[0].endpoint = 'http://localhost:4001';
+    local.systems[1].components[0].endpoint = 'http://127.0.0.1:4001';
+    local.systems[1].components[0].deployment.port = 4001;
+    expect(detectConflicts(local).map(issue => issue.message)).toEqual(['Port 4001 on 127.0.0.1 is already used by infra-iam/infra-iam-a (port)']);
+
+    local.systems[1].components[0].enabled = false;
+    expect(detectConflicts(local)).toEqual([]);
+  });
+
+  it('should report duplicate ids and container names', () => {
+    const duplicated = config();
+    duplicated.systems[1].systemId = 'infra-iam';
+    duplicated.systems[1].components[0].componentId = 'infra-iam-a';
+    duplicated.systems[1].components[1].deployment.containerName = 'web';
+
+    expect(detectConflicts(duplicated).map(issue => `${issue.path}: ${issue.message}`)).toEqual([
+      "systems[1].systemId: Duplicate systemId 'infra-iam' (also systems[0])",
+      "systems[1].components[0].componentId: Duplicate componentId 'infra-iam-a' (also systems[0].components[0])",
+      "systems[1].components[1].deployment.containerName: containerName 'web' is also used by infra-iam/infra-iam-w"
+    ]);
+  });
+
+  it('should warn when the endpoint port differs from deployment.port', () => {
+    const mismatched = config();
+    mismatched.systems[0].components[1].deployment.port = 8080;
+    expect(detectConflicts(mismatched)).toEqual([
+      { ruleId: 'conflict/endpoint-port', severity: 'warning', path: 'systems[0].components[1].endpoint', message: 'Endpoint port 80 does not match deployment.port 8080' }
+    ]);
+  });
+
+  it('should find no conflicts in the official configuration', () => {
+    const result = validate(path.join(__dirname, '..', 'infra-config-official.json'));
+    expect(result.issues.filter(issue => /Port |Duplicate|containerName/.test(issue.message))).toEqual([]);
+  });
+});
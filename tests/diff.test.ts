@@ -0,0 +1,69 @@
+import { diffConfigs, formatConfigDiff } from '../src/diff';
+import { loadConfigFile } from '../src/overlay';
+import { InfraConfig } from '../src/types';
+import * as path from 'path';
+
+describe('Config Diff', () => {
+  const base = loadConfigFile(path.join(__dirname, 'mocks', 'valid-multi-system.json'));
+
+  function changed(): InfraConfig {
+    const next: InfraConfig = JSON.parse(JSON.stringify(base));
+    next.environment = 'PROD';
+    next.systems[0].components[0].deployment.jwtSecret = 'plain-secret-value';
+    next.systems[0].components[0].deployment.logLevel = 'warn';
+    next.systems[0].components.splice(1, 1);
+    next.systems[1].components.push({ componentId: 'sys-b-web', componentType: 'WEB', deployment: { port: 8082 } });
+    next.systems.push({ systemId: 'sys-c', systemType: 'CONFIG', components: [] });
+    return next;
+  }
+
+  it('should report nothing for equivalent configs', () => {
+    const reordered = { ...JSON.parse(JSON.stringify(base)), contentHash: 'sha256:ignored' };
+    const diff = diffConfigs(base, reordered);
+    expect(diff.identical).toBe(true);
+    expect(formatConfigDiff(diff)).toBe('No changes\n');
+  });
+
+  it('should report systems, components, fields and env vars', () => {
+    const diff = diffConfigs(base, changed());
+
+    expect(diff.topLevelChanges).toEqual([{ field: 'environment', change: 'modified', before: 'TEST', after: 'PROD', secret: false }]);
+    expect(diff.systemsAdded).toEqual(['sys-c']);
+    expect(diff.components.map(c => `${c.componentId}:${c.status}`)).toEqual([
+      'sys-a-agent:modified', 'sys-a-web:removed', 'sys-b-web:added'
+    ]);
+
+    const agent = diff.components[0];
+    expect(agent.fieldChanges.map(c => `${c.change} ${c.field}`)).toEqual(['modified deployment.jwtSecret', 'added deployment.logLevel']);
+    expect(agent.envChanges.map(c => `${c.change} ${c.field}`)).toEqual(['modified JWT_SECRET', 'added LOG_LEVEL']);
+  });
+
+  it('should report components whose env vars change through envMappings alone', () => {
+    const next: InfraConfig = { ...JSON.parse(JSON.stringify(base)), envMappings: [{ rename: { port: 'HTTP_PORT' } }] };
+    const diff = diffConfigs(base, next);
+
+    expect(diff.components.map(c => c.componentId)).toEqual(['sys-a-agent', 'sys-a-web', 'sys-b-agent', 'sys-b-legacy']);
+    expect(diff.components[0].fieldChanges).toEqual([]);
+    expect(diff.components[0].envChanges.map(c => `${c.change} ${c.field}`)).toEqual(['removed PORT', 'added HTTP_PORT']);
+    expect(formatConfigDiff(diff)).toContain('~ sys-a/sys-a-agent (modified)\n  env:\n    - PORT: "4001"\n    + HTTP_PORT: "4001"');
+  });
+
+  it('should report env var collisions instead of failing', () => {
+    const next: InfraConfig = { ...JSON.parse(JSON.stringify(base)), envMappings: [{ aliases: { port: ['COMPONENT_ID'] } }] };
+    const diff = diffConfigs(base, next);
+
+    expect(diff.components[0].envIssues).toEqual(['COMPONENT_ID is produced by both extract-config metadata and alias of port']);
+    expect(formatConfigDiff(diff)).toContain('  env:\n    ! COMPONENT_ID is produced by both extract-config metadata and alias of port');
+  });
+
+  it('should mask secret values unless asked not to', () => {
+    const masked = diffConfigs(base, changed());
+    const text = formatConfigDiff(masked);
+    expect(text).not.toContain('plain-secret-value');
+    expect(text).toContain('~ deployment.jwtSecret: "********" → "********"');
+    expect(text).toContain('+ LOG_LEVEL: "warn"');
+
+    const shown = diffConfigs(base, changed(), { showSecrets: true });
+    expect(shown.components[0].envChanges[0].after).toBe('plain-secret-value');
+  });
+});
@@ -0,0 +1,109 @@
+import { encryptValue, decryptValue, isEncryptedValue, encryptConfig, decryptDeployment, generateEncryptionKey, loadEncryptionKey, ENCRYPTION_KEY_ENV } from '../src/encryption';
+import { encryptConfigFile, reencryptConfigFile } from '../src/bin/encrypt-config';
+import { extractConfig } from '../src/bin/extract-config';
+import { validate } from '../src/bin/validate-config';
+import { computeContentHash } from '../src/hash';
+import { InfraConfig } from '../src/types';
+import { configWith } from './mocks/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const JWT = 'wylw19E7GJsaoeNuVicDmx5vJwm2tcHlDoa3k7gVmQ';
+const ENC_KEY = 'NTBi0zwadRn065XHzMCsWArvGLjqgXdVF/w8pitXLDE=';
+
+function testConfig(): InfraConfig {
+  const config = configWith([{
+    componentId: 'test-agent',
+    componentType: 'AGENT',
+    deployment: {
+      port: 3000,
+      databaseUsageMode: 'SHARED',
+      dbNetworkKey: 'primary-db',
+      jwtSecret: JWT,
+      mfaEncKey: ENC_KEY,
+      mariadbPassword: '${env:TEST_ENCRYPTION_DB_PASSWORD}'
+    }
+  }]);
+  return { ...config, contentHash: computeContentHash(config) };
+}
+
+describe('Encrypted Values', () => {
+  let dir: string;
+  let configPath: string;
+  let keyPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'infraconfig-enc-'));
+    configPath = path.join(dir, 'infra-config.json');
+    fs.writeFileSync(configPath, JSON.stringify(testConfig(), null, 2));
+    keyPath = path.join(dir, 'infra-config.key');
+    fs.writeFileSync(keyPath, generateEncryptionKey() + '\n');
+    process.env.TEST_ENCRYPTION_DB_PASSWORD = 'db-password-from-env';
+  });
+
+  afterEach(() => {
+    delete process.env[ENCRYPTION_KEY_ENV];
+    delete process.env.TEST_ENCRYPTION_DB_PASSWORD;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should round-trip values and reject a wrong key', () => {
+    const key = loadEncryptionKey(keyPath)!;
+    const encrypted = encryptValue('s3cret', key);
+    expect(encrypted).toMatch(/^enc:v1:[A-Za-z0-9+/]+=*$/);
+    expect(encryptValue('s3cret', key)).not.toBe(encrypted);
+    expect(decryptValue(encrypted, key)).toBe('s3cret');
+    expect(() => decryptValue(encrypted, Buffer.alloc(32))).toThrow('Wrong key or corrupted value');
+    expect(() => decryptDeployment({ jwtSecret: encrypted }, undefined)).toThrow('deployment.jwtSecret is encrypted but no key was given');
+  });
+
+  it('should only encrypt plain secret fields', () => {
+    const key = loadEncryptionKey(keyPath)!;
+    const { config, fields } = encryptConfig(testConfig(), key);
+    const deployment = config.systems[0].components[0].deployment;
+
+    expect(fields).toEqual(['systems[0].components[0].deployment.jwtSecret', 'systems[0].components[0].deployment.mfaEncKey']);
+    expect(isEncryptedValue(deployment.jwtSecret)).toBe(true);
+    expect(deployment.mariadbPassword).toBe('${env:TEST_ENCRYPTION_DB_PASSWORD}');
+    expect(deployment.dbNetworkKey).toBe('primary-db');
+    expect(encryptConfig(config, key).fields).toEqual([]);
+  });
+
+  it('should encrypt a file in place and decrypt at extraction', () => {
+    encryptConfigFile(configPath, keyPath);
+    const written = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+    expect(JSON.stringify(written)).not.toContain(JWT);
+    expect(written.contentHash).toBe(computeContentHash(written));
+
+    const result = extractConfig({ configPath, componentId: 'test-agent', encryptionKeyPath: keyPath });
+    expect(result.envVars.JWT_SECRET).toBe(JWT);
+    expect(result.envVars.MFA_ENC_KEY).toBe(ENC_KEY);
+    expect(result.envVars.MARIADB_PASSWORD).toBe('db-password-from-env');
+
+    process.env[ENCRYPTION_KEY_ENV] = fs.readFileSync(keyPath, 'utf-8').trim();
+    expect(extractConfig({ configPath, componentId: 'test-agent' }).envVars.JWT_SECRET).toBe(JWT);
+    delete process.env[ENCRYPTION_KEY_ENV];
+    expect(() => extractConfig({ configPath, componentId: 'test-agent' })).toThrow('no key was given');
+
+    // Encrypted values are skipped by the secret checks, so no key-encoding error
+    expect(validate(configPath).valid).toBe(true);
+  });
+
+  it('should re-encrypt with a new key', () => {
+    encryptConfigFile(configPath, keyPath);
+    const newKeyPath = path.join(dir, 'new.key');
+    fs.writeFileSync(newKeyPath, Buffer.alloc(32, 7).toString('hex'));
+
+    expect(reencryptConfigFile(configPath, keyPath, newKeyPath).fields).toHaveLength(2);
+    expect(extractConfig({ configPath, componentId: 'test-agent', encryptionKeyPath: newKeyPath }).envVars.JWT_SECRET).toBe(JWT);
+    expect(() => extractConfig({ configPath, componentId: 'test-agent', encryptionKeyPath: keyPath })).toThrow('Cannot decrypt deployment.jwtSecret: Wrong key or corrupted value');
+    expect(() => reencryptConfigFile(configPath, keyPath, newKeyPath)).toThrow('Cannot decrypt systems[0].components[0].deployment.jwtSecret');
+  });
+
+  it('should reject keys of the wrong size', () => {
+    fs.writeFileSync(keyPath, 'c2hvcnQ=');
+    expect(() => loadEncryptionKey(keyPath)).toThrow('must be 32 bytes');
+    expect(() => encryptConfigFile(configPath)).toThrow(`No encryption key: pass a key file or set ${ENCRYPTION_KEY_ENV}`);
+  });
+});
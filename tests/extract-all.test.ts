@@ -0,0 +1,71 @@
+import { extractAll } from '../src/bin/extract-config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('Bulk Extraction', () => {
+  const configPath = path.join(__dirname, 'mocks', 'valid-multi-system.json');
+  let outputDir: string;
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'infraconfig-extract-all-'));
+    process.env.TEST_EXTRACT_ALL_SECRET = 'secret-value';
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+    delete process.env.TEST_EXTRACT_ALL_SECRET;
+  });
+
+  it('should write one file per enabled component and a manifest', () => {
+    const manifest = extractAll({ configPath, outputDir });
+
+    expect(manifest.components.map(c => [c.componentId, c.status, c.file])).toEqual([
+      ['sys-a-agent', 'generated', 'sys-a/sys-a-agent.env'],
+      ['sys-a-web', 'generated', 'sys-a/sys-a-web.env'],
+      ['sys-b-agent', 'generated', 'sys-b/sys-b-agent.env'],
+      ['sys-b-legacy', 'skipped', undefined]
+    ]);
+    expect(fs.readFileSync(path.join(outputDir, 'sys-a', 'sys-a-agent.env'), 'utf-8')).toContain('JWT_SECRET=secret-value');
+    expect(fs.existsSync(path.join(outputDir, 'sys-b', 'sys-b-legacy.env'))).toBe(false);
+
+    const written = JSON.parse(fs.readFileSync(path.join(outputDir, 'manifest.json'), 'utf-8'));
+    expect(written.components).toHaveLength(4);
+  });
+
+  it('should only extract the selected system', () => {
+    const manifest = extractAll({ configPath, outputDir, systemId: 'sys-b' });
+    expect(manifest.components.map(c => c.componentId)).toEqual(['sys-b-agent', 'sys-b-legacy']);
+    expect(fs.existsSync(path.join(outputDir, 'sys-a'))).toBe(false);
+    expect(() => extractAll({ configPath, outputDir, systemId: 'sys-c' })).toThrow("System 'sys-c' not found");
+  });
+
+  it('should apply the naming pattern and format', () => {
+    const manifest = extractAll({ configPath, outputDir, format: 'json', pattern: '{componentType}-{componentId}.{ext}' });
+    expect(manifest.components[1].file).toBe('WEB-sys-a-web.json');
+    expect(JSON.parse(fs.readFileSync(path.join(outputDir, 'WEB-sys-a-web.json'), 'utf-8')).PORT).toBe('8081');
+  });
+
+  it('should record per-component failures without stopping the run', () => {
+    delete process.env.TEST_EXTRACT_ALL_SECRET;
+    const manifest = extractAll({ configPath, outputDir });
+    const [agent, web] = manifest.components;
+
+    expect(agent.status).toBe('failed');
+    expect(agent.error).toContain("Environment variable 'TEST_EXTRACT_ALL_SECRET' is not set");
+    expect(web.status).toBe('generated');
+  });
+
+  it('should reject patterns that escape the output directory', () => {
+    expect(() => extractAll({ configPath, outputDir, pattern: '../{componentId}.env' })).toThrow('is outside');
+  });
+
+  it('should fail before writing when components share an output file', () => {
+    expect(() => extractAll({ configPath, outputDir, pattern: '{systemId}.{ext}' }))
+      .toThrow("Output file 'sys-a.env' for sys-a/sys-a-web is also written for sys-a/sys-a-agent");
+    expect(fs.readdirSync(outputDir)).toEqual([]);
+
+    expect(() => extractAll({ configPath, outputDir, format: 'json', pattern: 'manifest.{ext}' }))
+      .toThrow("Output file 'manifest.json' for sys-a/sys-a-agent is also written for the manifest");
+  });
+});
@@ -0,0 +1,66 @@
+import { formatExtractedConfig } from '../src/formatters';
+import { ExtractedConfig } from '../src/types';
+import { execFileSync } from 'child_process';
+
+describe('Output Formats', () => {
+  const result: ExtractedConfig = {
+    componentId: 'infra-iam-a',
+    systemId: 'infra-iam',
+    systemType: 'IAM',
+    componentType: 'AGENT',
+    envVars: {
+      PORT: '4001',
+      CORS_ORIGIN: '*',
+      LOG_FORMAT: 'level=$LEVEL # msg',
+      GREETING: "it's \"quoted\"\nsecond line",
+      EMPTY: '',
+      JWT_SECRET: 'p@ss w0rd$'
+    },
+    secretKeys: ['JWT_SECRET'],
+    warnings: []
+  };
+
+  it('should quote dotenv values only when needed', () => {
+    const output = formatExtractedConfig(result, 'dotenv');
+    expect(output).toContain('PORT=4001\n');
+    expect(output).toContain("CORS_ORIGIN='*'\n");
+    expect(output).toContain("LOG_FORMAT='level=$LEVEL # msg'\n");
+    expect(output).toContain('GREETING="it\'s \\"quoted\\"\\nsecond line"\n');
+    expect(output).toContain('EMPTY=\n');
+  });
+
+  it('should produce shell exports that evaluate to the exact values', () => {
+    const output = formatExtractedConfig(result, 'shell');
+    const script = `${output}\nprintf '%s\\0' "$GREETING" "$LOG_FORMAT" "$JWT_SECRET" "$EMPTY"`;
+    const values = execFileSync('sh', ['-c', script], { encoding: 'utf-8' }).split('\0');
+    expect(values.slice(0, 4)).toEqual([
+      result.envVars.GREETING,
+      result.envVars.LOG_FORMAT,
+      result.envVars.JWT_SECRET,
+      ''
+    ]);
+  });
+
+  it('should escape systemd values without shell expansion', () => {
+    const output = formatExtractedConfig(result, 'systemd');
+    expect(output).toContain('JWT_SECRET="p@ss w0rd$"\n');
+    expect(output).toContain('GREETING="it\'s \\"quoted\\"\\nsecond line"\n');
+  });
+
+  it('should emit sorted JSON', () => {
+    const parsed = JSON.parse(formatExtractedConfig(result, 'json'));
+    expect(parsed).toEqual(result.envVars);
+    expect(Object.keys(parsed)).toEqual(Object.keys(result.envVars).sort());
+  });
+
+  it('should split secrets into a Kubernetes Secret', () => {
+    const [configMap, secret] = formatExtractedConfig(result, 'k8s').split('---\n');
+    expect(configMap).toContain('kind: "ConfigMap"');
+    expect(configMap).toContain('name: "infra-iam-a-config"');
+    expect(configMap).toContain('  PORT: "4001"');
+    expect(configMap).not.toContain('JWT_SECRET');
+    expect(secret).toContain('kind: "Secret"');
+    expect(secret).toContain('  JWT_SECRET: "p@ss w0rd$"');
+    expect(secret).not.toContain('PORT');
+  });
+});
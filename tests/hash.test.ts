@@ -0,0 +1,52 @@
+import { canonicalJson, computeContentHash, verifyContentHash } from '../src/hash';
+import { loadConfigFile } from '../src/overlay';
+import { extractConfig } from '../src/bin/extract-config';
+import { validate } from '../src/bin/validate-config';
+import * as path from 'path';
+
+describe('Content Hash', () => {
+  const mocksDir = path.join(__dirname, 'mocks');
+  const hashedPath = path.join(mocksDir, 'valid-hashed.json');
+  const mismatchPath = path.join(mocksDir, 'invalid-hash-mismatch.json');
+
+  it('should serialize with stable key ordering', () => {
+    expect(canonicalJson({ b: 1, a: { d: [1, 'x'], c: null } })).toBe('{"a":{"c":null,"d":[1,"x"]},"b":1}');
+  });
+
+  it('should ignore key order, contentHash and generatedBy', () => {
+    const config = loadConfigFile(hashedPath);
+    const reordered = {
+      systems: config.systems,
+      environment: config.environment,
+      schemaVersion: config.schemaVersion,
+      generatedBy: { tool: 'other', generatedAtUtc: '2026-01-01T00:00:00.000Z' }
+    };
+    expect(computeContentHash(reordered)).toBe(config.contentHash);
+    expect(verifyContentHash(config).status).toBe('match');
+  });
+
+  it('should classify hand-written labels as legacy', () => {
+    const config = { ...loadConfigFile(hashedPath), contentHash: 'standardized-mariadb-only-v1' };
+    expect(verifyContentHash(config).status).toBe('legacy');
+  });
+
+  it('should report a mismatch as a validation error unless skipped', () => {
+    const result = validate(mismatchPath);
+    expect(result.valid).toBe(false);
+    expect(result.issues.some(i => i.path === 'contentHash' && i.message.startsWith('contentHash mismatch'))).toBe(true);
+
+    expect(validate(mismatchPath, { skipHashCheck: true }).valid).toBe(true);
+  });
+
+  it('should refuse to extract a modified config unless skipped', () => {
+    expect(() => extractConfig({ configPath: mismatchPath, componentId: 'test-agent-shared' })).toThrow('contentHash mismatch');
+
+    const result = extractConfig({ configPath: mismatchPath, componentId: 'test-agent-shared', skipHashCheck: true });
+    expect(result.envVars.PORT).toBe('3001');
+  });
+
+  it('should export INFRA_CONFIG_HASH', () => {
+    const result = extractConfig({ configPath: hashedPath, componentId: 'test-agent-shared' });
+    expect(result.envVars.INFRA_CONFIG_HASH).toBe(loadConfigFile(hashedPath).contentHash);
+  });
+});
@@ -0,0 +1,116 @@
+import { parseEnvFile, parseComposeEnvironment, importEnvVars } from '../src/import-env';
+import { importEnvFile } from '../src/bin/import-env';
+import { extractEnvVars } from '../src/bin/extract-config';
+import { formatExtractedConfig } from '../src/formatters';
+import { validate } from '../src/bin/validate-config';
+import { DeploymentConfig } from '../src/types';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('Environment Import', () => {
+  const importDir = path.join(__dirname, 'mocks', 'import');
+
+  it('should parse .env files', () => {
+    expect(parseEnvFile([
+      '# comment',
+      'export A=1',
+      "B='x # not a comment'",
+      'C="line\\nbreak \\"quoted\\""',
+      'D=plain # comment',
+      'E='
+    ].join('\n'))).toEqual({ A: '1', B: 'x # not a comment', C: 'line\nbreak "quoted"', D: 'plain', E: '' });
+    expect(() => parseEnvFile('A=1\nnot a variable')).toThrow('Line 2 is not KEY=value');
+  });
+
+  it('should map, coerce and flag variables', () => {
+    const { component, issues } = importEnvFile(path.join(importDir, 'legacy.env'));
+
+    expect(component).toEqual({
+      componentId: 'legacy-iam-agent',
+      componentType: 'AGENT',
+      deployment: {
+        port: 4100,
+        nodeEnv: 'production',
+        mariadbHost: 'db.internal',
+        mariadbPort: 3306,
+        mariadbPassword: '${env:IAM_DB_PASSWORD}',
+        cookieSecure: true,
+        rateLimitWindowMs: 'abc',
+        mariadbDatabase: 'iam',
+        corsOrigin: 'https://iam.example.com'
+      }
+    });
+    expect(issues).toEqual([
+      { variable: 'COMPONENT_ID', kind: 'ignored', message: expect.any(String) },
+      { variable: 'RATE_LIMIT_WINDOW_MS', kind: 'invalid', message: "'rateLimitWindowMs' must be a number; kept as a string" },
+      { variable: 'LEGACY_FEATURE_FLAG', kind: 'unknown', message: expect.any(String) },
+      { variable: 'POSTGRES_DB', kind: 'legacy', message: "Legacy name; imported as 'mariadbDatabase'" },
+      { variable: 'CORS_ORIGINS', kind: 'legacy', message: "Legacy name; imported as 'corsOrigin'" }
+    ]);
+  });
+
+  it('should prefer standard names over legacy ones', () => {
+    const { deployment, issues } = importEnvVars({ CORS_ORIGINS: 'https://old', CORS_ORIGIN: 'https://new' });
+    expect(deployment).toEqual({ corsOrigin: 'https://new' });
+    expect(issues[0].message).toContain('ignored because CORS_ORIGIN is also set');
+  });
+
+  it('should read docker-compose environment sections', () => {
+    const compose = fs.readFileSync(path.join(importDir, 'docker-compose.yml'), 'utf-8');
+    expect(() => parseComposeEnvironment(compose)).toThrow('Several services (iam-agent, iam-web)');
+    expect(parseComposeEnvironment(compose, 'iam-agent')).toEqual({ PORT: '4100', JWT_SECRET: '${IAM_JWT_SECRET}', MFA_ENC_KEY: '${env:MFA_ENC_KEY}' });
+
+    const { component } = importEnvFile(path.join(importDir, 'docker-compose.yml'), { service: 'iam-web', componentId: 'iam-web', componentType: 'WEB' });
+    expect(component.deployment).toEqual({
+      port: 80,
+      apiBaseUrl: 'https://iam.example.com/api',
+      moduleUrls: { iam: 'https://iam.example.com' },
+      moduleApiBaseUrls: { config: 'https://config.example.com/api' },
+      databaseUsageMode: 'NONE'
+    });
+  });
+
+  it('should round-trip extracted variables', () => {
+    const deployment: DeploymentConfig = {
+      port: 3000,
+      databaseUsageMode: 'SHARED',
+      dbNetworkKey: 'primary-db',
+      mariadbSslEnabled: false,
+      corsOrigin: 'https://a.example.com,https://b.example.com',
+      jwtSecret: "it's a \"secret\" $value",
+      moduleUrls: { iam: 'https://iam.example.com' }
+    };
+    const dotenv = formatExtractedConfig({
+      componentId: 'c', systemId: 's', systemType: 'TEST', componentType: 'AGENT',
+      envVars: extractEnvVars(deployment), secretKeys: [], warnings: []
+    }, 'dotenv');
+    expect(importEnvVars(parseEnvFile(dotenv)).deployment).toEqual(deployment);
+  });
+
+  it('should lower-case module keys', () => {
+    const envVars = extractEnvVars({ port: 3000, moduleUrls: { erpAgent: 'https://erp.example.com' } });
+    expect(importEnvVars(envVars).deployment).toEqual({ port: 3000, moduleUrls: { erpagent: 'https://erp.example.com' } });
+  });
+
+  it('should insert the component into a system', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'infraconfig-import-'));
+    try {
+      const configPath = path.join(dir, 'infra-config.json');
+      fs.copyFileSync(path.join(__dirname, 'mocks', 'valid-shared.json'), configPath);
+      const envPath = path.join(dir, '.env');
+      fs.writeFileSync(envPath, 'PORT=3100\nDATABASE_USAGE_MODE=NONE\n');
+
+      const options = { componentId: 'imported-agent', configPath, systemId: 'test-sys' };
+      importEnvFile(envPath, options);
+      const config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      expect(config.systems[0].components.map((c: { componentId: string }) => c.componentId)).toEqual(['test-agent-shared', 'imported-agent']);
+      expect(validate(configPath).valid).toBe(true);
+
+      expect(() => importEnvFile(envPath, options)).toThrow("Component 'imported-agent' already exists in system 'test-sys'");
+      expect(() => importEnvFile(envPath, { ...options, systemId: 'nope' })).toThrow("System 'nope' not found");
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
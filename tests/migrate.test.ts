@@ -0,0 +1,93 @@
+import { migrateConfig, formatLineDiff, CURRENT_SCHEMA_VERSION } from '../src/migrate';
+import { migrateConfigFile } from '../src/bin/migrate-config';
+import { DEPRECATED_FIELDS } from '../src/deprecations';
+import { INFRA_CONFIG_SCHEMA } from '../src/schema';
+import { computeContentHash, verifyContentHash } from '../src/hash';
+import { loadConfigFile } from '../src/overlay';
+import { InfraConfig, JsonSchema } from '../src/types';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * The first deployment, including fields DeploymentConfig no longer declares
+ */
+function deploymentOf(config: InfraConfig): Record<string, unknown> {
+  return { ...config.systems[0].components[0].deployment };
+}
+
+describe('Config Migration', () => {
+  const mocksDir = path.join(__dirname, 'mocks');
+  const legacyPath = path.join(mocksDir, 'legacy-deprecated.json');
+
+  it('should rename deprecated fields in place and bump schemaVersion', () => {
+    const legacy = loadConfigFile(legacyPath);
+    const result = migrateConfig(legacy, { onConflict: 'keep-new' });
+    const deployment = deploymentOf(result.config);
+
+    expect(result.fromVersion).toBe('0');
+    expect(result.toVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(result.config.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(Object.keys(deployment)).toEqual(['port', 'mariadbHost', 'mariadbPort', 'mariadbDatabase', 'corsOrigin', 'infraIamBaseUrl', 'logLevel']);
+    expect(deployment.infraIamBaseUrl).toBe('http://iam:4001');
+    expect(result.conflicts).toEqual([]);
+
+    // Input untouched
+    expect(deploymentOf(legacy).postgresHost).toBe('mariadb');
+  });
+
+  it('should report conflicting values unless a strategy is given', () => {
+    const legacy = loadConfigFile(legacyPath);
+
+    const failed = migrateConfig(legacy);
+    expect(failed.conflicts).toEqual([
+      { path: 'systems[0].components[0].deployment', oldField: 'iamApiUrl', newField: 'infraIamBaseUrl' }
+    ]);
+    // Equal values are not a conflict
+    expect(deploymentOf(failed.config).corsOrigins).toBeUndefined();
+
+    const keptOld = migrateConfig(legacy, { onConflict: 'keep-old' });
+    expect(deploymentOf(keptOld.config).infraIamBaseUrl).toBe('http://localhost:4001');
+  });
+
+  it('should recompute a contentHash that matched before migration', () => {
+    const legacy = loadConfigFile(legacyPath);
+    const hashed = { ...legacy, contentHash: computeContentHash(legacy) };
+
+    const result = migrateConfig(hashed, { onConflict: 'keep-new' });
+    expect(verifyContentHash(result.config).status).toBe('match');
+  });
+
+  it('should write to a new file, or only print a diff on dry run', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'infraconfig-migrate-'));
+    try {
+      const outputPath = path.join(dir, 'migrated.json');
+
+      const dryRun = migrateConfigFile(legacyPath, { outputPath, onConflict: 'keep-new', dryRun: true });
+      expect(dryRun.written).toBe(false);
+      expect(fs.existsSync(outputPath)).toBe(false);
+      expect(dryRun.diff).toContain('-             "postgresHost": "mariadb",');
+      expect(dryRun.diff).toContain('+             "mariadbHost": "mariadb",');
+
+      const conflicted = migrateConfigFile(legacyPath, { outputPath });
+      expect(conflicted.written).toBe(false);
+
+      const written = migrateConfigFile(legacyPath, { outputPath, onConflict: 'keep-new' });
+      expect(written.written).toBe(true);
+      expect(loadConfigFile(outputPath).schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should produce a unified-style line diff', () => {
+    expect(formatLineDiff('a\nb\nc', 'a\nx\nc')).toBe('  a\n- b\n+ x\n  c');
+    expect(formatLineDiff('a\nb', 'a\nb')).toBe('');
+  });
+
+  it('should keep the schema deprecations in sync with DEPRECATED_FIELDS', () => {
+    const properties: Record<string, JsonSchema> = INFRA_CONFIG_SCHEMA.$defs.DeploymentConfig.properties;
+    const deprecated = Object.keys(properties).filter(key => properties[key].deprecated);
+    expect(deprecated.sort()).toEqual(Object.keys(DEPRECATED_FIELDS).sort());
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * Configuration fixtures for tests
+ */
+
+import * as path from 'path';
+import { loadConfigFile } from '../../src/overlay';
+import { Component, InfraConfig } from '../../src/types';
+
+/**
+ * A fresh copy of a configuration in tests/mocks, safe to modify
+ */
+export function mockConfig(name: string): InfraConfig {
+  return loadConfigFile(path.join(__dirname, name));
+}
+
+/**
+ * A configuration with one system, sys, holding the given components
+ */
+export function configWith(components: Component[], config: Partial<InfraConfig> = {}): InfraConfig {
+  return {
+    schemaVersion: '1.0',
+    environment: 'TEST',
+    ...config,
+    systems: [{ systemId: 'sys', systemType: 'TEST', components }]
+  };
+}
@@ -0,0 +1,16 @@
+module.exports = {
+  rules: [
+    {
+      id: 'team/port-range',
+      description: 'Service ports must be in the 3000-9999 range',
+      severity: 'warning',
+      check(component) {
+        const port = component.deployment.port;
+        if (port === undefined || (port >= 3000 && port <= 9999)) {
+          return [];
+        }
+        return [{ field: 'port', message: `Port ${port} is outside 3000-9999` }];
+      }
+    }
+  ]
+};
@@ -0,0 +1,14 @@
+{{! Rendered per WEB component }}
+server {
+  listen {{ deployment.port }};
+  server_name {{ component.componentId }};
+{{#if deployment.apiBaseUrl}}
+
+  location /api/ {
+    proxy_pass {{ deployment.apiBaseUrl }};
+  }
+{{/if}}
+{{#if deployment.mtlsEnabled}}
+  ssl_client_certificate {{ deployment.mtlsCaPath }};
+{{/if}}
+}
@@ -0,0 +1,50 @@
+import { loadConfig } from '../src/overlay';
+import { extractConfig } from '../src/bin/extract-config';
+import { validate } from '../src/bin/validate-config';
+import * as path from 'path';
+
+describe('Environment Overlays', () => {
+  const mocksDir = path.join(__dirname, 'mocks');
+  const basePath = path.join(mocksDir, 'overlay-base.json');
+  const prodPath = path.join(mocksDir, 'overlay-prod.json');
+
+  it('should deep-merge components by componentId', () => {
+    const config = loadConfig(basePath, [prodPath]);
+    const agent = config.systems[0].components.find(c => c.componentId === 'test-agent')!;
+    expect(config.environment).toBe('prod');
+    expect(agent.endpoint).toBe('https://agent.prod.internal');
+    expect(agent.deployment.port).toBe(3000);
+    expect(agent.deployment.logLevel).toBe('info');
+    expect(agent.deployment.moduleUrls).toEqual({ iam: 'https://iam.prod.internal', im: 'http://localhost:8082' });
+  });
+
+  it('should delete fields set to null', () => {
+    const config = loadConfig(basePath, [prodPath]);
+    const agent = config.systems[0].components.find(c => c.componentId === 'test-agent')!;
+    expect(agent.deployment).not.toHaveProperty('corsOrigin');
+  });
+
+  it('should replace and delete components on request', () => {
+    const config = loadConfig(basePath, [prodPath]);
+    const ids = config.systems[0].components.map(c => c.componentId);
+    const web = config.systems[0].components.find(c => c.componentId === 'test-web')!;
+    expect(ids).toEqual(['test-agent', 'test-web']);
+    expect(web).toEqual({ componentId: 'test-web', componentType: 'WEB', deployment: { port: 443 } });
+  });
+
+  it('should apply overlays in extractConfig and validate', () => {
+    const result = extractConfig({ configPath: basePath, componentId: 'test-agent', overlayPaths: [prodPath] });
+    expect(result.envVars.INFRA_ENVIRONMENT).toBe('prod');
+    expect(result.envVars.LOG_LEVEL).toBe('info');
+    expect(result.envVars).not.toHaveProperty('CORS_ORIGIN');
+
+    const validation = validate(basePath, { overlayPaths: [prodPath] });
+    expect(validation.issues.some(i => i.path.includes('components[2]'))).toBe(false);
+  });
+
+  it('should report a missing overlay file', () => {
+    const result = validate(basePath, { overlayPaths: [path.join(mocksDir, 'missing-overlay.json')] });
+    expect(result.valid).toBe(false);
+    expect(result.issues[0].message).toBe('Configuration file not found');
+  });
+});
@@ -0,0 +1,125 @@
+import { evaluatePolicies, registerPolicyPack, selectPolicyPack } from '../src/policies';
+import { validate } from '../src/bin/validate-config';
+import { extractConfig } from '../src/bin/extract-config';
+import { InfraConfig } from '../src/types';
+import { mockConfig } from './mocks/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const NOW = new Date('2026-06-15T12:00:00Z');
+
+const config = (environment: string) => ({ ...mockConfig('policies-unsafe.json'), environment });
+
+describe('Environment Policies', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'infraconfig-policies-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeConfig(content: InfraConfig): string {
+    const configPath = path.join(dir, 'infra-config.json');
+    fs.writeFileSync(configPath, JSON.stringify(content));
+    return configPath;
+  }
+
+  it('should select packs by environment, case-insensitively', () => {
+    expect(selectPolicyPack('PROD')?.name).toBe('prod');
+    expect(selectPolicyPack('qual')?.name).toBe('qual');
+    expect(selectPolicyPack('dev')?.name).toBe('dev');
+    expect(selectPolicyPack('TEST')).toBeUndefined();
+  });
+
+  it('should turn unsafe settings into errors in prod', () => {
+    expect(evaluatePolicies(config('prod'), { now: NOW }).map(issue => `${issue.severity} ${issue.ruleId} ${issue.path}`)).toEqual([
+      'error policy/cors-wildcard systems[0].components[0].deployment.corsOrigin',
+      'error policy/insecure-cookie systems[0].components[0].deployment.cookieSecure',
+      'error policy/dev-admin-seed systems[0].components[0].deployment.allowDevAdminSeed',
+      'error policy/db-ssl-disabled systems[0].components[0].deployment.mariadbSslEnabled',
+      'error policy/plain-http systems[0].components[0].endpoint'
+    ]);
+  });
+
+  it('should use the pack severities of other environments', () => {
+    expect([...new Set(evaluatePolicies(config('qual'), { now: NOW }).map(issue => issue.severity))]).toEqual(['warning', 'info']);
+    expect(evaluatePolicies(config('dev'), { now: NOW })).toEqual([]);
+    expect(evaluatePolicies(config('TEST'), { now: NOW })).toEqual([]);
+    expect(evaluatePolicies(config('qual'), { now: NOW, policyPack: 'prod' }).every(issue => issue.severity === 'error')).toBe(true);
+    expect(() => evaluatePolicies(config('qual'), { policyPack: 'nope' })).toThrow("Unknown policy pack 'nope'");
+  });
+
+  it('should apply waivers until they expire', () => {
+    const waived = config('prod');
+    waived.systems[0].components[0].waivers = [
+      { ruleId: 'policy/cors-wildcard', reason: 'Partner portal, INC-4711', expires: '2026-06-15' },
+      { ruleId: 'policy/plain-http', field: 'endpoint', reason: 'TLS terminates at the load balancer', expires: '2027-01-01' },
+      { ruleId: 'policy/insecure-cookie', reason: 'Legacy', expires: '2026-06-14' }
+    ];
+    const issues = evaluatePolicies(waived, { now: NOW });
+
+    expect(issues).toContainEqual({
+      ruleId: 'policy/cors-wildcard',
+      severity: 'info',
+      path: 'systems[0].components[0].deployment.corsOrigin',
+      message: 'corsOrigin "*" allows requests from any origin (waived until 2026-06-15: Partner portal, INC-4711)'
+    });
+    expect(issues.find(issue => issue.ruleId === 'policy/plain-http')?.severity).toBe('info');
+    expect(issues.find(issue => issue.ruleId === 'policy/insecure-cookie')?.severity).toBe('error');
+    expect(issues).toContainEqual({
+      ruleId: 'policy/waiver-expired',
+      severity: 'warning',
+      path: 'systems[0].components[0].waivers[2]',
+      message: 'Waiver for policy/insecure-cookie expired on 2026-06-14'
+    });
+  });
+
+  it('should reject packs for environments that already have one', () => {
+    expect(() => registerPolicyPack({ name: 'production', environments: ['PRODUCTION'], severities: {} })).toThrow('already covered by policy pack prod');
+  });
+
+  it('should fail validate() and extraction in prod', () => {
+    const configPath = writeConfig(config('prod'));
+
+    const result = validate(configPath);
+    expect(result.valid).toBe(false);
+    expect(result.issues.filter(issue => issue.ruleId.startsWith('policy/'))).toHaveLength(5);
+
+    expect(() => extractConfig({ configPath, componentId: 'test-agent' })).toThrow(/Policy violations for test-agent \(prod\):\n {2}test-agent\.deployment\.corsOrigin/);
+    expect(extractConfig({ configPath, componentId: 'test-agent', policyPack: 'dev' }).envVars.CORS_ORIGIN).toBe('*');
+  });
+
+  it('should check the values references resolve to', () => {
+    const prod = config('prod');
+    prod.systems[0].components[0].endpoint = 'https://test-agent.example.com';
+    prod.systems[0].components[0].deployment = {
+      port: 4001,
+      mariadbSslEnabled: '${env:TEST_POLICY_MARIADB_SSL}' as unknown as boolean,
+      infraIamBaseUrl: '${env:TEST_POLICY_IAM_URL}'
+    };
+    const configPath = writeConfig(prod);
+    process.env.TEST_POLICY_MARIADB_SSL = 'false';
+    process.env.TEST_POLICY_IAM_URL = 'http://iam.example.com';
+    try {
+      expect(() => extractConfig({ configPath, componentId: 'test-agent' }))
+        .toThrow(/mariadbSslEnabled is false[\s\S]*infraIamBaseUrl uses plain http:\/\//);
+
+      process.env.TEST_POLICY_MARIADB_SSL = 'true';
+      process.env.TEST_POLICY_IAM_URL = 'https://iam.example.com';
+      expect(extractConfig({ configPath, componentId: 'test-agent' }).envVars.MARIADB_SSL_ENABLED).toBe('true');
+    } finally {
+      delete process.env.TEST_POLICY_MARIADB_SSL;
+      delete process.env.TEST_POLICY_IAM_URL;
+    }
+  });
+
+  it('should warn during extraction in qual', () => {
+    const result = extractConfig({ configPath: writeConfig(config('qual')), componentId: 'test-agent' });
+    expect(result.warnings).toContain('WARN: cookieSecure is false: session cookies are sent over plain http (policy/insecure-cookie)');
+    expect(result.warnings.some(warning => warning.includes('policy/plain-http'))).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+import { checkProfiles, getProfile, registerProfile, isProfiledSystem } from '../src/profiles';
+import { validate } from '../src/bin/validate-config';
+import { extractConfig } from '../src/bin/extract-config';
+import { mockConfig } from './mocks/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const KEY = 'q8J3rV0nX2mB7tY5wK1zL4pD6sF9hG0cA3eR5uI7oP0=';
+
+const config = () => mockConfig('profiles-systems.json');
+
+describe('Deployment Profiles', () => {
+  it('should accept components matching their profile and ignore unknown system types', () => {
+    expect(checkProfiles(config())).toEqual([]);
+  });
+
+  it('should report missing required fields', () => {
+    const incomplete = config();
+    delete incomplete.systems[0].components[0].deployment.jwtSecret;
+    incomplete.systems[0].components[0].deployment.oidcIssuer = '';
+    delete incomplete.systems[1].components[0].deployment.jwtPublicKeyPath;
+
+    expect(checkProfiles(incomplete)).toEqual([
+      { ruleId: 'profile/required-field', severity: 'error', path: 'systems[0].components[0].deployment.jwtSecret', message: 'jwtSecret is required for IAM AGENT components' },
+      { ruleId: 'profile/required-field', severity: 'error', path: 'systems[0].components[0].deployment.oidcIssuer', message: 'oidcIssuer is required for IAM AGENT components' },
+      { ruleId: 'profile/required-field', severity: 'error', path: 'systems[1].components[0].deployment', message: 'One of jwtSecret, jwtPublicKeyPath is required for CONFIG AGENT components' }
+    ]);
+  });
+
+  it('should report forbidden fields', () => {
+    const leaky = config();
+    leaky.systems[0].components[1].deployment.jwtSecret = '${env:IAM_JWT}';
+    leaky.systems[1].components[0].deployment.mfaEncKey = KEY;
+
+    expect(checkProfiles(leaky).map(issue => `${issue.ruleId} ${issue.path}`)).toEqual([
+      'profile/forbidden-field systems[0].components[1].deployment.jwtSecret',
+      'profile/forbidden-field systems[1].components[0].deployment.mfaEncKey'
+    ]);
+  });
+
+  it('should apply registered profiles', () => {
+    registerProfile({ systemType: 'CUSTOM', components: { AGENT: { required: ['natsUrl'], forbidden: ['mfaEncKey'] } } });
+    expect(getProfile('CUSTOM')).toBeDefined();
+    expect(checkProfiles(config()).map(issue => issue.ruleId)).toEqual(['profile/required-field', 'profile/forbidden-field']);
+    expect(() => registerProfile({ systemType: 'IAM', components: {} })).toThrow('already registered');
+  });
+
+  it('should narrow systems with a built-in profile', () => {
+    const [iam, , custom] = config().systems;
+    expect(isProfiledSystem(iam)).toBe(true);
+    expect(isProfiledSystem(custom)).toBe(false);
+
+    delete iam.components[0].deployment.mfaEncKey;
+    expect(isProfiledSystem(iam)).toBe(false);
+  });
+
+  it('should fail validate() and warn during extraction', () => {
+    const incomplete = config();
+    delete incomplete.systems[0].components[0].deployment.mfaEncKey;
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'infraconfig-profiles-'));
+    try {
+      const configPath = path.join(dir, 'infra-config.json');
+      fs.writeFileSync(configPath, JSON.stringify(incomplete));
+
+      const result = validate(configPath);
+      expect(result.valid).toBe(false);
+      expect(result.issues).toContainEqual(expect.objectContaining({ ruleId: 'profile/required-field', path: 'systems[0].components[0].deployment.mfaEncKey' }));
+
+      process.env.IAM_JWT = 'x'.repeat(32);
+      const extracted = extractConfig({ configPath, componentId: 'infra-iam-a' });
+      expect(extracted.warnings).toContain('WARN: mfaEncKey is required for IAM AGENT components');
+      delete process.env.IAM_JWT;
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should accept the official configuration', () => {
+    const result = validate(path.join(__dirname, '..', 'infra-config-official.json'));
+    expect(result.issues.filter(issue => issue.ruleId.startsWith('profile/'))).toEqual([]);
+  });
+});
@@ -0,0 +1,117 @@
+import { promoteConfig, rollbackConfig, configHistory } from '../src/bin/promote-config';
+import { verifyContentHash } from '../src/hash';
+import { InfraConfig } from '../src/types';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+function draft(port: number): InfraConfig {
+  return {
+    schemaVersion: '1.0',
+    environment: 'TEST',
+    version: 1,
+    status: 'DRAFT',
+    systems: [
+      {
+        systemId: 'test-sys',
+        systemType: 'TEST',
+        components: [{ componentId: 'test-agent', componentType: 'AGENT', deployment: { port } }]
+      }
+    ],
+    contentHash: 'sha256:stale'
+  };
+}
+
+function read(file: string): InfraConfig {
+  return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+describe('Config Promotion', () => {
+  let dir: string;
+  let draftPath: string;
+  let currentPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'infraconfig-promote-'));
+    draftPath = path.join(dir, 'infra-config.draft.json');
+    currentPath = path.join(dir, 'infra-config.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function promote(port: number, at: string) {
+    fs.writeFileSync(draftPath, JSON.stringify(draft(port)));
+    return promoteConfig(draftPath, { outputPath: currentPath, now: new Date(at) });
+  }
+
+  it('should promote a DRAFT to the next CURRENT version', () => {
+    const result = promote(4001, '2026-03-01T10:00:00Z');
+    const current = read(currentPath);
+
+    expect(result.version).toBe(2);
+    expect(result.previousVersion).toBeUndefined();
+    expect(current).toMatchObject({
+      version: 2,
+      status: 'CURRENT',
+      promotedAtUtc: '2026-03-01T10:00:00.000Z',
+      generatedBy: { tool: 'promote-config', generatedAtUtc: '2026-03-01T10:00:00.000Z' }
+    });
+    expect(verifyContentHash(current).status).toBe('match');
+    expect(read(result.historyFile)).toEqual(current);
+    expect(read(draftPath).status).toBe('DRAFT');
+  });
+
+  it('should supersede the previous CURRENT version', () => {
+    promote(4001, '2026-03-01T10:00:00Z');
+    const result = promote(4002, '2026-03-02T10:00:00Z');
+
+    expect(result.version).toBe(3);
+    expect(result.previousVersion).toBe(2);
+    expect(configHistory(currentPath).map(entry => `v${entry.version} ${entry.status}`)).toEqual(['v2 SUPERSEDED', 'v3 CURRENT']);
+
+    const superseded = read(configHistory(currentPath)[0].file);
+    expect(superseded.systems[0].components[0].deployment.port).toBe(4001);
+    expect(verifyContentHash(superseded).status).toBe('match');
+  });
+
+  it('should promote a DRAFT in place', () => {
+    promote(4001, '2026-03-01T10:00:00Z');
+    const edited = { ...read(currentPath), status: 'DRAFT' };
+    edited.systems[0].components[0].deployment.port = 4005;
+    fs.writeFileSync(currentPath, JSON.stringify(edited));
+
+    const result = promoteConfig(currentPath, { now: new Date('2026-03-02T10:00:00Z') });
+    expect(result.version).toBe(3);
+    expect(result.previousVersion).toBe(2);
+    expect(configHistory(currentPath).map(entry => entry.status)).toEqual(['SUPERSEDED', 'CURRENT']);
+  });
+
+  it('should refuse configs that are not DRAFT or not valid', () => {
+    promote(4001, '2026-03-01T10:00:00Z');
+    expect(() => promoteConfig(currentPath)).toThrow("Only DRAFT configurations can be promoted (status is 'CURRENT')");
+
+    const invalid = draft(4001);
+    (invalid.systems[0].components[0].deployment as unknown as Record<string, unknown>).port = 'not-a-port';
+    fs.writeFileSync(draftPath, JSON.stringify(invalid));
+    expect(() => promoteConfig(draftPath, { outputPath: currentPath })).toThrow(/^Validation failed, not promoting:\n {2}systems\[0\]/);
+    expect(configHistory(currentPath)).toHaveLength(1);
+  });
+
+  it('should roll back to an earlier version under a new version number', () => {
+    promote(4001, '2026-03-01T10:00:00Z');
+    promote(4002, '2026-03-02T10:00:00Z');
+
+    const result = rollbackConfig(currentPath, 2, { now: new Date('2026-03-03T10:00:00Z') });
+    const current = read(currentPath);
+
+    expect(result.version).toBe(4);
+    expect(current.systems[0].components[0].deployment.port).toBe(4001);
+    expect(current.promotedAtUtc).toBe('2026-03-03T10:00:00.000Z');
+    expect(configHistory(currentPath).map(entry => `v${entry.version} ${entry.status}`)).toEqual(['v2 SUPERSEDED', 'v3 SUPERSEDED', 'v4 CURRENT']);
+
+    expect(() => rollbackConfig(currentPath, 4)).toThrow('Version 4 is already CURRENT');
+    expect(() => rollbackConfig(currentPath, 9)).toThrow('Version 9 not found');
+  });
+});
@@ -0,0 +1,48 @@
+import { resolveReferences } from '../src/references';
+import { loadConfig } from '../src/overlay';
+import { extractConfig } from '../src/bin/extract-config';
+import { validate } from '../src/bin/validate-config';
+import * as path from 'path';
+
+describe('Cross-Component References', () => {
+  const mocksDir = path.join(__dirname, 'mocks');
+  const validPath = path.join(mocksDir, 'valid-references.json');
+  const invalidPath = path.join(mocksDir, 'invalid-references.json');
+
+  it('should resolve references to other components, self and the containing system', () => {
+    const { config, issues } = resolveReferences(loadConfig(validPath));
+    const [agent, web] = config.systems[0].components;
+    const imAgent = config.systems[1].components[0];
+
+    expect(issues).toHaveLength(0);
+    expect(agent.deployment.metricsPort).toBe(4001);
+    expect(agent.deployment.oidcIssuer).toBe('http://10.0.0.5:4001');
+    expect(agent.deployment.tracingServiceName).toBe('infra-iam-agent');
+    expect(web.deployment.apiBaseUrl).toBe('http://10.0.0.5:4001');
+    expect(web.deployment.oidcRedirectUri).toBe('http://10.0.0.5:8081/auth/callback');
+    expect(imAgent.deployment.infraIamBaseUrl).toBe('http://10.0.0.5:4001');
+  });
+
+  it('should use resolved values during extraction', () => {
+    const result = extractConfig({ configPath: validPath, componentId: 'infra-im-a' });
+    expect(result.envVars.INFRA_IAM_BASE_URL).toBe('http://10.0.0.5:4001');
+  });
+
+  it('should report circular and dangling references', () => {
+    const { issues } = resolveReferences(loadConfig(invalidPath));
+    const byPath = Object.fromEntries(issues.map(issue => [issue.path, issue.message]));
+
+    expect(byPath['systems[0].components[0].endpoint']).toMatch(/^Circular reference: test-sys\/test-agent\.endpoint -> /);
+    expect(byPath['systems[0].components[0].deployment.infraIamBaseUrl']).toBe(
+      "Dangling reference '${ref:infra-iam/infra-iam-a.endpoint}': system 'infra-iam' not found"
+    );
+  });
+
+  it('should fail validation and extraction on unresolved references', () => {
+    const result = validate(invalidPath);
+    expect(result.valid).toBe(false);
+    expect(result.issues.some(i => i.message.startsWith('Dangling reference'))).toBe(true);
+
+    expect(() => extractConfig({ configPath: invalidPath, componentId: 'test-agent' })).toThrow('Unresolved references in test-agent');
+  });
+});
@@ -0,0 +1,102 @@
+import { validate } from '../src/bin/validate-config';
+import { formatValidationResult, validationExitCode, VALIDATION_EXIT_CODES } from '../src/report';
+import { BUILTIN_RULES } from '../src/rules';
+import { ValidationIssue } from '../src/types';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: string;
+  message: { text: string };
+  locations: { physicalLocation: { region: { startLine: number } } }[];
+}
+
+interface SarifLog {
+  version: string;
+  runs: { tool: { driver: { rules: { id: string }[] } }; results: SarifResult[] }[];
+}
+
+interface JsonReport {
+  valid: boolean;
+  summary: { errors: number };
+  issues: ValidationIssue[];
+}
+
+describe('Validation Reports', () => {
+  const mocksDir = path.join(__dirname, 'mocks');
+  const officialPath = path.join(__dirname, '..', 'infra-config-official.json');
+  const structurePath = path.join(mocksDir, 'invalid-structure.json');
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'infraconfig-report-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should give every issue a known rule ID', () => {
+    const files = ['invalid-structure.json', 'invalid-local-missing-key.json', 'invalid-references.json', 'invalid-hash-mismatch.json', 'legacy-deprecated.json'];
+    const issues = [...files.map(file => path.join(mocksDir, file)), officialPath].flatMap(file => validate(file).issues);
+
+    expect(issues.length).toBeGreaterThan(0);
+    for (const issue of issues) {
+      expect(BUILTIN_RULES).toHaveProperty([issue.ruleId]);
+    }
+  });
+
+  it('should map results to distinct exit codes', () => {
+    const brokenPath = path.join(dir, 'broken.json');
+    fs.writeFileSync(brokenPath, '{ "systems": [');
+
+    expect(validationExitCode(validate(brokenPath))).toBe(VALIDATION_EXIT_CODES.invalidJson);
+    expect(validationExitCode(validate(structurePath))).toBe(VALIDATION_EXIT_CODES.schema);
+    expect(validationExitCode(validate(path.join(mocksDir, 'invalid-local-missing-key.json')))).toBe(VALIDATION_EXIT_CODES.policy);
+
+    const withWarnings = validate(officialPath);
+    expect(withWarnings.valid).toBe(true);
+    expect(validationExitCode(withWarnings)).toBe(VALIDATION_EXIT_CODES.ok);
+    expect(validationExitCode(withWarnings, { strict: true })).toBe(VALIDATION_EXIT_CODES.policy);
+    expect(validationExitCode(withWarnings, { maxWarnings: 1000 })).toBe(VALIDATION_EXIT_CODES.ok);
+    expect(validationExitCode(withWarnings, { maxWarnings: 0 })).toBe(VALIDATION_EXIT_CODES.policy);
+  });
+
+  it('should emit SARIF with rules and source lines', () => {
+    const sarif: SarifLog = JSON.parse(formatValidationResult(validate(officialPath), 'sarif', { configPath: officialPath }));
+    const run = sarif.runs[0];
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(run.tool.driver.rules).toContainEqual({ id: 'schema/additional-properties', shortDescription: { text: 'Field is not part of the schema' } });
+
+    const unknownField = run.results.find(result => result.message.text.startsWith('systems[6].components[0].deployment.mdgApiBaseUrl'))!;
+    expect(unknownField.level).toBe('warning');
+    expect(unknownField.locations[0].physicalLocation.region).toEqual({ startLine: 261 });
+    expect(run.tool.driver.rules[unknownField.ruleIndex].id).toBe(unknownField.ruleId);
+  });
+
+  it('should locate missing fields at the enclosing object', () => {
+    const sarif: SarifLog = JSON.parse(formatValidationResult(validate(structurePath), 'sarif', { configPath: structurePath }));
+    const missing = sarif.runs[0].results.find(result => result.ruleId === 'schema/required' && result.message.text.includes('componentId'))!;
+    expect(missing.locations[0].physicalLocation.region).toEqual({ startLine: 8 });
+  });
+
+  it('should emit JUnit XML with one failure per error or warning', () => {
+    const xml = formatValidationResult(validate(path.join(mocksDir, 'invalid-local-missing-key.json')), 'junit', { configPath: 'config.json' });
+    expect(xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<testsuites name="validate-config"/);
+    expect(xml).toContain('<testcase classname="database/network-key-required" name="systems[0].components[0].deployment.dbNetworkKey">');
+    expect(xml).toContain('<failure type="error" message="dbNetworkKey is required for LOCAL usage mode">');
+
+    const passing = formatValidationResult({ valid: true, issues: [] }, 'junit', { configPath: 'config.json' });
+    expect(passing).toContain('tests="1" failures="0"');
+  });
+
+  it('should emit JSON with a summary', () => {
+    const report: JsonReport = JSON.parse(formatValidationResult(validate(structurePath), 'json', { configPath: structurePath }));
+    expect(report.valid).toBe(false);
+    expect(report.summary.errors).toBe(report.issues.filter(issue => issue.severity === 'error').length);
+  });
+});
@@ -0,0 +1,91 @@
+import { declarativeRule, loadRules, assertRuleIds, runRules } from '../src/rules';
+import { validate } from '../src/bin/validate-config';
+import { extractConfig } from '../src/bin/extract-config';
+import { formatValidationResult } from '../src/report';
+import { ValidationRule } from '../src/types';
+import { mockConfig } from './mocks/config';
+import * as path from 'path';
+
+const sharedPath = path.join(__dirname, 'mocks', 'valid-shared.json');
+const rulesPath = path.join(__dirname, 'mocks', 'rules', 'team-rules.json');
+
+const config = () => mockConfig('rules-systems.json');
+
+describe('Validation Rules', () => {
+  it('should run rules only on matching system and component types', () => {
+    const rule = declarativeRule({ id: 'team/iam-agent-issuer', systemTypes: ['IAM'], componentTypes: ['AGENT'], requiredFields: ['oidcIssuer'] });
+    expect(runRules(config(), [rule])).toEqual([
+      { ruleId: 'team/iam-agent-issuer', severity: 'error', path: 'systems[0].components[0].deployment.oidcIssuer', message: 'oidcIssuer is required' }
+    ]);
+  });
+
+  it('should report forbidden fields', () => {
+    const rule = declarativeRule({ id: 'team/no-port', severity: 'warning', componentTypes: ['WEB'], forbiddenFields: ['port'] });
+    expect(runRules(config(), [rule])).toEqual([
+      { ruleId: 'team/no-port', severity: 'warning', path: 'systems[0].components[1].deployment.port', message: 'port must not be set' }
+    ]);
+  });
+
+  it('should prefer the finding severity and path over the rule defaults', () => {
+    const rule: ValidationRule = {
+      id: 'team/custom',
+      severity: 'warning',
+      systemTypes: ['IM'],
+      check: (component, context) => [{ message: `${component.componentId} in ${context.system.systemId}`, severity: 'info', path: `${context.path}.endpoint` }]
+    };
+    expect(runRules(config(), [rule])).toEqual([
+      { ruleId: 'team/custom', severity: 'info', path: 'systems[1].components[0].endpoint', message: 'infra-im-a in infra-im' }
+    ]);
+  });
+
+  it('should report a failing rule instead of throwing', () => {
+    const rule: ValidationRule = { id: 'team/broken', systemTypes: ['IM'], check: () => { throw new Error('boom'); } };
+    expect(runRules(config(), [rule])).toEqual([
+      { ruleId: 'rule/exception', severity: 'error', path: 'systems[1].components[0]', message: "Rule 'team/broken' failed: boom" }
+    ]);
+  });
+
+  it('should reject reserved and duplicate rule IDs', () => {
+    const rule = declarativeRule({ id: 'conflict/port' });
+    expect(() => runRules(config(), [rule])).toThrow('reserved');
+    const team = declarativeRule({ id: 'team/a' });
+    expect(() => runRules(config(), [team, team])).toThrow("Duplicate rule ID 'team/a'");
+    expect(() => assertRuleIds([...loadRules(rulesPath), ...loadRules(rulesPath)])).toThrow("Duplicate rule ID 'team/agent-port'");
+  });
+
+  it('should load declarative rules and plugins from a rules file', () => {
+    const rules = loadRules(rulesPath);
+    expect(rules.map(rule => rule.id)).toEqual(['team/agent-port', 'team/iam-issuer', 'team/port-range']);
+    expect(runRules(config(), rules).map(issue => `${issue.ruleId} ${issue.path}`)).toEqual([
+      'team/iam-issuer systems[0].components[0].deployment.oidcIssuer',
+      'team/iam-issuer systems[0].components[1].deployment.oidcIssuer',
+      'team/port-range systems[0].components[1].deployment.port'
+    ]);
+  });
+
+  it('should load a plugin module directly', () => {
+    const rules = loadRules('./mocks/rules/port-range.js', __dirname);
+    expect(rules.map(rule => rule.id)).toEqual(['team/port-range']);
+    expect(() => loadRules('./mocks/rules/missing.json', __dirname)).toThrow('Rules file not found');
+  });
+
+  it('should include rule issues in validate() and their descriptions in SARIF', () => {
+    const rules = loadRules(rulesPath);
+    const result = validate(sharedPath, { rules: [...rules, declarativeRule({ id: 'team/metrics', requiredFields: ['metricsPort'] })] });
+    expect(result.valid).toBe(false);
+    expect(result.issues).toContainEqual(expect.objectContaining({ ruleId: 'team/metrics', path: 'systems[0].components[0].deployment.metricsPort' }));
+
+    const sarif = JSON.parse(formatValidationResult(result, 'sarif', { configPath: sharedPath, rules }));
+    expect(sarif.runs[0].tool.driver.rules).toContainEqual({ id: 'team/metrics', shortDescription: { text: 'team/metrics' } });
+  });
+
+  it('should abort extraction on rule errors and keep warnings', () => {
+    const failing = declarativeRule({ id: 'team/metrics', requiredFields: ['metricsPort'] });
+    expect(() => extractConfig({ configPath: sharedPath, componentId: 'test-agent-shared', rules: [failing] }))
+      .toThrow(/metricsPort is required \(team\/metrics\)/);
+
+    const warning = declarativeRule({ id: 'team/metrics', severity: 'warning', requiredFields: ['metricsPort'] });
+    const result = extractConfig({ configPath: sharedPath, componentId: 'test-agent-shared', rules: [warning] });
+    expect(result.warnings).toContain('WARN: metricsPort is required (team/metrics)');
+  });
+});
@@ -0,0 +1,77 @@
+import { INFRA_CONFIG_SCHEMA, validateSchema } from '../src/schema';
+import { validate } from '../src/bin/validate-config';
+import { JsonSchema } from '../src/types';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+/**
+ * Read property names and optionality of an interface in src/types.ts
+ */
+function interfaceProperties(name: string): Record<string, boolean> {
+  const file = path.join(__dirname, '..', 'src', 'types.ts');
+  const program = ts.createProgram([file], {});
+  const source = program.getSourceFile(file)!;
+  const properties: Record<string, boolean> = {};
+
+  ts.forEachChild(source, node => {
+    if (ts.isInterfaceDeclaration(node) && node.name.text === name) {
+      for (const member of node.members) {
+        if (ts.isPropertySignature(member)) {
+          properties[member.name.getText(source).replace(/['"]/g, '')] = !member.questionToken;
+        }
+      }
+    }
+  });
+  return properties;
+}
+
+function schemaProperties(node: JsonSchema): Record<string, boolean> {
+  const properties: Record<string, boolean> = {};
+  for (const [key, property] of Object.entries(node.properties || {})) {
+    if (!property.deprecated) {
+      properties[key] = (node.required || []).includes(key);
+    }
+  }
+  return properties;
+}
+
+describe('JSON Schema', () => {
+  const mocksDir = path.join(__dirname, 'mocks');
+
+  it.each([
+    ['InfraConfig', INFRA_CONFIG_SCHEMA],
+    ['System', INFRA_CONFIG_SCHEMA.$defs.System],
+    ['Component', INFRA_CONFIG_SCHEMA.$defs.Component],
+    ['DeploymentConfig', INFRA_CONFIG_SCHEMA.$defs.DeploymentConfig],
+    ['PolicyWaiver', INFRA_CONFIG_SCHEMA.$defs.PolicyWaiver],
+    ['EnvMapping', INFRA_CONFIG_SCHEMA.$defs.EnvMapping]
+  ])('should match the %s interface in types.ts', (name, node) => {
+    expect(schemaProperties(node)).toEqual(interfaceProperties(name));
+  });
+
+  it('should accept the official configuration', () => {
+    const config = require('../infra-config.json');
+    expect(validateSchema(config)).toEqual([]);
+  });
+
+  it('should report structural issues with instance and schema paths', () => {
+    const result = validate(path.join(mocksDir, 'invalid-structure.json'));
+    const byPath = Object.fromEntries(result.issues.map(i => [i.path, i]));
+    const dep = 'systems[0].components[0].deployment';
+
+    expect(result.valid).toBe(false);
+    expect(byPath['environment'].message).toBe('Missing required field: environment');
+    expect(byPath['systems[0].components[0].componentId'].schemaPath).toBe('#/$defs/Component/required');
+    expect(byPath['systems[0].components[0].componentType'].message).toBe('Must be one of: AGENT, WEB');
+    expect(byPath[`${dep}.port`]).toMatchObject({
+      severity: 'error',
+      message: 'Expected integer or reference, got string',
+      schemaPath: '#/$defs/DeploymentConfig/properties/port/anyOf'
+    });
+    expect(byPath[`${dep}.cookieSecure`].message).toBe('Expected boolean or reference, got string');
+    expect(byPath[`${dep}.databaseUsageMode`].message).toBe('Must be one of: LOCAL, SHARED, NONE');
+    expect(byPath[`${dep}.moduleUrls.iam`].schemaPath).toBe('#/$defs/DeploymentConfig/properties/moduleUrls/additionalProperties/type');
+    expect(byPath[`${dep}.mdgApiBaseUrl`]).toMatchObject({ severity: 'warning', message: "Unknown field 'mdgApiBaseUrl'" });
+    expect(byPath[`${dep}.mariadbPort`]).toBeUndefined();
+  });
+});
@@ -0,0 +1,81 @@
+import { analyzeSecrets, classifySecretField } from '../src/secret-hygiene';
+import { validate } from '../src/bin/validate-config';
+import { InfraConfig, DeploymentConfig } from '../src/types';
+import { configWith } from './mocks/config';
+import * as path from 'path';
+
+function withAgents(...deployments: Partial<DeploymentConfig>[]): InfraConfig {
+  return configWith(deployments.map((deployment, index) => ({
+    componentId: `comp-${index}`,
+    componentType: 'AGENT',
+    deployment: { port: 4000 + index, ...deployment }
+  })));
+}
+
+const STRONG = 'wylw19E7GJsaoeNuVicDmx5vJwm2tcHlDoa3k7gVmQ';
+const KEY = 'NTBi0zwadRn065XHzMCsWArvGLjqgXdVF/w8pitXLDE=';
+
+describe('Secret Hygiene', () => {
+  it('should classify secret fields', () => {
+    expect(classifySecretField('mariadbPassword')).toBe('password');
+    expect(classifySecretField('infraImBearerToken')).toBe('token');
+    expect(classifySecretField('mfaEncKey')).toBe('encryption-key');
+    expect(classifySecretField('scimSharedSecret')).toBe('shared-secret');
+    expect(classifySecretField('mariadbHost')).toBeUndefined();
+  });
+
+  it('should accept strong, unique secrets and references', () => {
+    expect(analyzeSecrets(withAgents(
+      { jwtSecret: STRONG, mfaEncKey: KEY, refreshTokenEncKey: 'ab'.repeat(32) },
+      { jwtSecret: '${env:OTHER_JWT}', mariadbPassword: '${file:/run/secrets/db}' }
+    ))).toEqual([]);
+  });
+
+  it('should report empty, short, weak and low-entropy secrets', () => {
+    const issues = analyzeSecrets(withAgents({
+      bootstrapOidcClientSecret: '',
+      mariadbPassword: 'short',
+      jwtSecret: 'MyCompanyPassword2024!',
+      scimSharedSecret: 'abababababababababababab'
+    }));
+    expect(issues.map(i => `${i.path.split('.').pop()}: ${i.message}`)).toEqual([
+      'bootstrapOidcClientSecret: Secret is empty',
+      'mariadbPassword: Secret is shorter than 16 characters',
+      'jwtSecret: Secret contains a common word or sequence',
+      'scimSharedSecret: Secret has low entropy (about 24 bits, expected at least 48)'
+    ]);
+  });
+
+  it('should report encryption keys of the wrong size as errors', () => {
+    const issues = analyzeSecrets(withAgents({ mfaEncKey: 'c2hvcnQta2V5', refreshTokenEncKey: 'not base64!' }));
+    expect(issues).toEqual([
+      { ruleId: 'secret/key-length', severity: 'error', path: 'systems[0].components[0].deployment.mfaEncKey', message: 'Encryption key decodes to 9 bytes, expected 32' },
+      { ruleId: 'secret/key-encoding', severity: 'error', path: 'systems[0].components[0].deployment.refreshTokenEncKey', message: 'Encryption key is not valid base64 or hex (expected 32 bytes)' }
+    ]);
+  });
+
+  it('should report reused and leaked secrets without printing them', () => {
+    const issues = analyzeSecrets(withAgents(
+      { mariadbPassword: STRONG },
+      { mariadbPassword: STRONG, dbLocalUrl: `mariadb://app:${STRONG}@db:3306/app` },
+      { dbLocalUrl: 'mariadb://app:hunter2@db:3306/app', infraIamBaseUrl: `http://iam?token=${STRONG}` }
+    ));
+    expect(issues.map(i => `${i.path}: ${i.message}`)).toEqual([
+      'systems[0].components[1].deployment.mariadbPassword: Same secret value as systems[0].components[0].deployment.mariadbPassword',
+      'systems[0].components[1].deployment.dbLocalUrl: URL contains embedded credentials. Move them to a secret field or ${...} reference',
+      'systems[0].components[2].deployment.dbLocalUrl: URL contains embedded credentials. Move them to a secret field or ${...} reference',
+      'systems[0].components[2].deployment.infraIamBaseUrl: Contains the value of secret systems[0].components[0].deployment.mariadbPassword'
+    ]);
+    expect(JSON.stringify(issues)).not.toContain(STRONG);
+  });
+
+  it('should run as part of validate()', () => {
+    const result = validate(path.join(__dirname, '..', 'infra-config.json'));
+    expect(result.issues).toContainEqual({
+      ruleId: 'secret/empty',
+      severity: 'warning',
+      path: 'systems[0].components[0].deployment.bootstrapOidcClientSecret',
+      message: 'Secret is empty'
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { extractConfig } from '../src/bin/extract-config';
+import { resolveSecretReferences } from '../src/secrets';
+import { SecretResolver } from '../src/types';
+import * as path from 'path';
+
+describe('Secret References', () => {
+  const mocksDir = path.join(__dirname, 'mocks');
+  const configPath = path.join(mocksDir, 'valid-secret-refs.json');
+  const customResolver: SecretResolver = {
+    scheme: 'custom',
+    resolve: (reference) => `custom-${reference}`
+  };
+
+  beforeEach(() => {
+    process.env.TEST_MARIADB_PASSWORD = 'env-db-password';
+  });
+
+  afterEach(() => {
+    delete process.env.TEST_MARIADB_PASSWORD;
+  });
+
+  it('should resolve file, env and custom references during extraction', () => {
+    const result = extractConfig({ configPath, secretResolvers: [customResolver] });
+    expect(result.envVars.JWT_SECRET).toBe('file-jwt-secret');
+    expect(result.envVars.MARIADB_PASSWORD).toBe('env-db-password');
+    expect(result.envVars.SCIM_SHARED_SECRET).toBe('custom-scim');
+  });
+
+  it('should fail clearly when no resolver is registered for a scheme', () => {
+    expect(() => extractConfig({ configPath })).toThrow(
+      "Cannot resolve '${custom:scim}' at deployment.scimSharedSecret: no secret resolver registered for scheme 'custom'"
+    );
+  });
+
+  it('should fail clearly when an environment variable is missing', () => {
+    delete process.env.TEST_MARIADB_PASSWORD;
+    expect(() => extractConfig({ configPath, secretResolvers: [customResolver] })).toThrow(
+      "Environment variable 'TEST_MARIADB_PASSWORD' is not set"
+    );
+  });
+
+  it('should resolve references embedded in larger values and leave shell defaults alone', () => {
+    const resolved = resolveSecretReferences(
+      { redisUrl: 'redis://:${env:TEST_MARIADB_PASSWORD}@redis:6379', network: '${NETWORK:-default}' },
+      { baseDir: mocksDir }
+    );
+    expect(resolved.redisUrl).toBe('redis://:env-db-password@redis:6379');
+    expect(resolved.network).toBe('${NETWORK:-default}');
+  });
+});
@@ -0,0 +1,80 @@
+import { generateSigningKeyPair, verifyConfigSignature, loadTrustedKeys, signConfig } from '../src/signature';
+import { signConfigFile, verifyConfigFile } from '../src/bin/sign-config';
+import { extractConfig } from '../src/bin/extract-config';
+import { validate } from '../src/bin/validate-config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('Config Signatures', () => {
+  const mocksDir = path.join(__dirname, 'mocks');
+  let dir: string;
+  let configPath: string;
+  let keyPath: string;
+  let pubPath: string;
+  let otherPubPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'infraconfig-sign-'));
+    configPath = path.join(dir, 'infra-config.json');
+    fs.copyFileSync(path.join(mocksDir, 'valid-shared.json'), configPath);
+
+    const pair = generateSigningKeyPair();
+    keyPath = path.join(dir, 'release.key');
+    pubPath = path.join(dir, 'release.pub');
+    fs.writeFileSync(keyPath, pair.privateKey);
+    fs.writeFileSync(pubPath, pair.publicKey);
+    otherPubPath = path.join(dir, 'other.pub');
+    fs.writeFileSync(otherPubPath, generateSigningKeyPair().publicKey);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should sign the canonical content and survive reformatting', () => {
+    const signature = signConfigFile(configPath, keyPath);
+    expect(signature).toMatchObject({ algorithm: 'ed25519', keyId: expect.stringMatching(/^sha256:[0-9a-f]{64}$/) });
+    expect(JSON.parse(fs.readFileSync(`${configPath}.sig`, 'utf-8'))).toEqual(signature);
+
+    const config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+    fs.writeFileSync(configPath, JSON.stringify(config));
+    expect(verifyConfigFile(configPath, [pubPath]).status).toBe('valid');
+  });
+
+  it('should reject modified content, untrusted keys and missing signatures', () => {
+    const config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+    const signature = signConfig(config, keyPath);
+    const trusted = loadTrustedKeys([pubPath]);
+
+    config.systems[0].components[0].deployment.port = 9999;
+    expect(verifyConfigSignature(config, signature, trusted)).toMatchObject({ status: 'invalid', message: expect.stringContaining('modified after signing') });
+    expect(verifyConfigSignature(config, signature, loadTrustedKeys([otherPubPath])).status).toBe('untrusted');
+    expect(verifyConfigSignature(config, undefined, trusted).status).toBe('missing');
+    expect(verifyConfigSignature(config, { ...signature, algorithm: 'rsa' }, trusted).status).toBe('invalid');
+    expect(() => loadTrustedKeys([keyPath.replace('.key', '.missing')])).toThrow('Key file not found');
+  });
+
+  it('should require a valid signature before extracting', () => {
+    const options = { configPath, componentId: 'test-agent-shared', trustedKeys: [pubPath] };
+    expect(() => extractConfig(options)).toThrow(`Signature verification failed for ${configPath}: Signature file not found`);
+
+    signConfigFile(configPath, keyPath);
+    expect(extractConfig(options).envVars.PORT).toBe('3000');
+    expect(() => extractConfig({ ...options, trustedKeys: [otherPubPath] })).toThrow('which is not trusted');
+    expect(() => extractConfig({ ...options, trustedKeys: [] })).toThrow('no trusted keys given');
+
+    fs.writeFileSync(`${configPath}.sig`, '{ not json');
+    expect(() => extractConfig(options)).toThrow(/Signature verification failed for .*: Failed to parse/);
+  });
+
+  it('should report signature problems in validate()', () => {
+    expect(validate(configPath).valid).toBe(true);
+    expect(validate(configPath, { trustedKeys: [pubPath] }).issues).toContainEqual(expect.objectContaining({ ruleId: 'signature/missing', severity: 'error' }));
+
+    signConfigFile(configPath, keyPath);
+    expect(validate(configPath, { trustedKeys: [pubPath] }).valid).toBe(true);
+    expect(validate(configPath, { trustedKeys: [otherPubPath] }).issues.map(issue => issue.ruleId)).toEqual(['signature/untrusted']);
+    expect(validate(configPath, { trustedKeys: [path.join(dir, 'nope.pub')] }).issues.map(issue => issue.ruleId)).toEqual(['signature/trusted-keys']);
+  });
+});
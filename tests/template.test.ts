@@ -0,0 +1,101 @@
+import { renderTemplate, templateContext, TEMPLATE_FILTERS } from '../src/template';
+import { renderComponentTemplate } from '../src/bin/render-template';
+import { TemplateContext } from '../src/types';
+import * as path from 'path';
+
+describe('Template Rendering', () => {
+  const context: TemplateContext = {
+    deployment: {
+      port: 8080,
+      nodeEnv: 'production',
+      cookieSecure: false,
+      moduleUrls: { iam: 'https://iam.example.com', im: 'https://im.example.com' }
+    },
+    env: { PORT: '8080', NODE_ENV: 'production' },
+    system: { systemId: 'infra-iam', systemType: 'IAM' },
+    component: { componentId: 'infra-iam-web', componentType: 'WEB' },
+    config: { environment: 'PROD', version: 3, contentHash: 'sha256:abc' }
+  };
+
+  it('should render values and filters', () => {
+    expect(renderTemplate('{{ deployment.port }} {{env.NODE_ENV | upper}} {{ system.systemId }}', context))
+      .toBe('8080 PRODUCTION infra-iam');
+    expect(TEMPLATE_FILTERS.json('a "b"')).toBe('"a \\"b\\""');
+    expect(TEMPLATE_FILTERS.shell("it's")).toBe(`'it'\\''s'`);
+    expect(TEMPLATE_FILTERS.url('a b&c')).toBe('a%20b%26c');
+    expect(renderTemplate('{{ deployment.moduleUrls | json }}', context))
+      .toBe('{"iam":"https://iam.example.com","im":"https://im.example.com"}');
+  });
+
+  it('should render conditionals', () => {
+    const template = '{{#if deployment.cookieSecure}}secure{{else}}insecure{{/if}}'
+      + ' {{#unless deployment.mtlsEnabled}}no-mtls{{/unless}}'
+      + ' {{#if config.environment == "PROD"}}prod{{/if}}'
+      + ' {{#if deployment.port != 80}}custom-port{{/if}}';
+    expect(renderTemplate(template, context)).toBe('insecure no-mtls prod custom-port');
+  });
+
+  it('should loop over moduleUrls and drop standalone block lines', () => {
+    const template = [
+      'window.__CONFIG__ = {',
+      '  {{#each deployment.moduleUrls as name, url}}',
+      '  {{ name | json }}: {{ url | json }}{{#unless loop.last}},{{/unless}}',
+      '  {{/each}}',
+      '};',
+      ''
+    ].join('\n');
+
+    expect(renderTemplate(template, context)).toBe([
+      'window.__CONFIG__ = {',
+      '  "iam": "https://iam.example.com",',
+      '  "im": "https://im.example.com"',
+      '};',
+      ''
+    ].join('\n'));
+  });
+
+  it('should fail on undefined variables, unknown filters and unknown fields', () => {
+    expect(() => renderTemplate('a\n{{ deployment.mariadbHost }}', context, 'app.conf'))
+      .toThrow("Undefined variable 'deployment.mariadbHost' at app.conf:2");
+    expect(() => renderTemplate('{{ secrets.x }}', context)).toThrow("Unknown variable 'secrets'");
+    expect(() => renderTemplate('{{ env.PORT | base64 }}', context)).toThrow("Unknown filter 'base64'");
+    expect(() => renderTemplate('{{#if deployment.mtlsEnabeld}}x{{/if}}', context))
+      .toThrow("Unknown deployment field 'mtlsEnabeld'");
+    expect(() => renderTemplate('{{#each deployment.moduleUrls as url}}x', context)).toThrow('Unclosed {{#each}}');
+    expect(() => renderTemplate('{{ deployment.moduleUrls }}', context)).toThrow('use {{#each}} or the json filter');
+  });
+
+  it('should render a template for an extracted component', () => {
+    const rendered = renderComponentTemplate(path.join(__dirname, 'mocks', 'templates', 'nginx.conf.tpl'), {
+      configPath: path.join(__dirname, 'mocks', 'valid-multi-system.json'),
+      componentId: 'sys-a-web'
+    });
+
+    expect(rendered).toBe([
+      'server {',
+      '  listen 8081;',
+      '  server_name sys-a-web;',
+      '',
+      '  location /api/ {',
+      '    proxy_pass http://localhost:4001;',
+      '  }',
+      '}',
+      ''
+    ].join('\n'));
+  });
+
+  it('should expose system metadata from the extracted config', () => {
+    const result = templateContext({
+      systemId: 'sys-a',
+      systemType: 'IAM',
+      componentId: 'sys-a-web',
+      componentType: 'WEB',
+      envVars: { PORT: '8081', INFRA_ENVIRONMENT: 'TEST', INFRA_CONFIG_VERSION: '2', INFRA_CONFIG_HASH: 'sha256:abc' },
+      secretKeys: [],
+      warnings: [],
+      deployment: { port: 8081 }
+    });
+    expect(result.config).toEqual({ environment: 'TEST', version: 2, contentHash: 'sha256:abc' });
+    expect(result.env.PORT).toBe('8081');
+  });
+});
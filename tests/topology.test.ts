@@ -0,0 +1,57 @@
+import { buildTopology, checkTopology, formatTopology } from '../src/topology';
+import { validate } from '../src/bin/validate-config';
+import { mockConfig } from './mocks/config';
+import * as path from 'path';
+
+const config = () => mockConfig('topology-urls.json');
+
+describe('Service Topology', () => {
+  it('should resolve service URLs to components by scheme, host and port', () => {
+    const topology = buildTopology(config());
+    const edges = topology.edges.map(edge => `${edge.from} -${edge.field}-> ${edge.to || '?'} (${edge.status})`);
+
+    expect(edges).toEqual([
+      'infra-iam/infra-iam-a -infraImBaseUrl-> infra-im/infra-im-a (ok)',
+      'infra-iam/infra-iam-w -apiBaseUrl-> infra-iam/infra-iam-a (ok)',
+      'infra-im/infra-im-a -infraIamBaseUrl-> ? (dangling)',
+      'infra-im/infra-im-a -natsUrl-> nats://nats:4222 (external)',
+      'infra-im/infra-im-w -apiBaseUrl-> infra-iam/infra-iam-a (mismatch)',
+      'infra-im/infra-im-w -moduleUrls.iam-> infra-iam/infra-iam-w (ok)'
+    ]);
+    expect(topology.nodes.find(node => node.external)).toEqual({ id: 'nats://nats:4222', enabled: true, external: true });
+  });
+
+  it('should report dangling, mismatched and disabled targets', () => {
+    const disabled = config();
+    disabled.systems[0].components[0].enabled = false;
+
+    expect(checkTopology(buildTopology(disabled)).map(issue => `${issue.path}: ${issue.message}`)).toEqual([
+      'systems[0].components[1].deployment.apiBaseUrl: Points at infra-iam/infra-iam-a, which is disabled',
+      'systems[1].components[0].deployment.infraIamBaseUrl: URL does not match any component endpoint. Expected http://10.0.0.1:4001 (infra-iam/infra-iam-a)',
+      'systems[1].components[1].deployment.apiBaseUrl: Points at infra-iam/infra-iam-a, expected the AGENT of infra-im'
+    ]);
+  });
+
+  it('should render DOT and Mermaid graphs', () => {
+    const topology = buildTopology(config());
+
+    const dot = formatTopology(topology, 'dot');
+    expect(dot).toContain('subgraph cluster_0 {');
+    expect(dot).toContain('"infra-iam/infra-iam-w" -> "infra-iam/infra-iam-a" [label="apiBaseUrl"];');
+    expect(dot).toContain('"infra-im/infra-im-w" -> "infra-iam/infra-iam-a" [label="apiBaseUrl", color=red];');
+    expect(dot).toContain('"dangling:http://10.0.0.9:4001" [label="http://10.0.0.9:4001", shape=ellipse, style=dashed, color=red];');
+    expect(dot).toContain('"infra-im/infra-im-a" -> "dangling:http://10.0.0.9:4001" [label="infraIamBaseUrl", color=red];');
+
+    const mermaid = formatTopology(topology, 'mermaid');
+    expect(mermaid).toContain('graph LR');
+    expect(mermaid).toContain('  infra_im_infra_im_a -->|natsUrl| nats___nats_4222');
+    expect(mermaid).toContain('  infra_im_infra_im_a -->|infraIamBaseUrl| dangling_http___10_0_0_9_4001');
+    expect(mermaid).toContain('  class dangling_http___10_0_0_9_4001 dangling');
+    expect(mermaid).toContain('  linkStyle 2,4 stroke:red');
+  });
+
+  it('should find every service URL of the official configuration', () => {
+    const result = validate(path.join(__dirname, '..', 'infra-config-official.json'));
+    expect(result.issues.filter(issue => /^(URL does not match|Points at)/.test(issue.message))).toEqual([]);
+  });
+});